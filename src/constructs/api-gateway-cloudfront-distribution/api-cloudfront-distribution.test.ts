@@ -166,6 +166,78 @@ describe('ApiCloudFrontDistribution', () => {
     expect(warnings).toHaveLength(0);
   });
 
+  describe('WAF', () => {
+    it('attaches a CloudFront web ACL to the distribution', () => {
+      const distribution = new ApiCloudFrontDistribution(stack, 'WafDist', {
+        ...defaultConfig,
+        waf: { allowedIps: ['198.51.100.10/32'] },
+      });
+
+      expect(distribution.webAcl).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::WAFv2::WebACL', {
+        Scope: 'CLOUDFRONT',
+      });
+      template.hasResourceProperties('AWS::WAFv2::IPSet', {
+        Scope: 'CLOUDFRONT',
+        Addresses: ['198.51.100.10/32'],
+      });
+      template.hasResourceProperties('AWS::CloudFront::Distribution', {
+        DistributionConfig: Match.objectLike({
+          WebACLId: stack.resolve(distribution.webAcl?.webAclArn),
+        }),
+      });
+    });
+
+    it('only suppresses AwsSolutions-CFR2 without a web ACL', () => {
+      const distribution = new ApiCloudFrontDistribution(stack, 'WafDist', {
+        ...defaultConfig,
+        waf: {},
+      });
+
+      const template = Template.fromStack(stack);
+      const suppressedRules = (dist: ApiCloudFrontDistribution) =>
+        JSON.stringify(
+          template.toJSON().Resources[
+            stack.getLogicalId(
+              dist.distribution.node.defaultChild as cdk.CfnElement,
+            )
+          ].Metadata,
+        );
+
+      expect(suppressedRules(apiCloudFrontDistribution)).toContain(
+        'AwsSolutions-CFR2',
+      );
+      expect(suppressedRules(distribution)).toContain('AwsSolutions-CFR1');
+      expect(suppressedRules(distribution)).not.toContain('AwsSolutions-CFR2');
+    });
+
+    it('throws when the stack is not in us-east-1', () => {
+      const euStack = new cdk.Stack(undefined, 'EuStack', {
+        env: { region: 'eu-west-1' },
+      });
+      const api = new apigw.RestApi(euStack, 'Api');
+      api.root.addMethod('GET');
+
+      expect(
+        () =>
+          new ApiCloudFrontDistribution(euStack, 'WafDist', {
+            ...defaultConfig,
+            api,
+            domainCertificate: Certificate.fromCertificateArn(
+              euStack,
+              'Cert',
+              'arn:aws:acm:us-east-1:123456789012:certificate/mock',
+            ),
+            waf: {},
+          }),
+      ).toThrow(
+        'CloudFront web ACL WafDistWebAcl must be created in us-east-1',
+      );
+    });
+  });
+
   describe('monitoring facade & alarms', () => {
     let mockMonitor: jest.Mock;
     let mockFacade: monitoring.MonitoringFacade;
@@ -13,6 +13,7 @@ import type { CloudFrontDistributionMonitoringOptions } from 'cdk-monitoring-con
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
 import { generateS3BucketName } from '../../utils';
+import { WebAcl, type WebAclOptions, WebAclScope } from '../web-acl';
 
 /**
  * Props for an API Gateway–fronted CloudFront distribution.
@@ -169,6 +170,17 @@ export interface ApiCloudFrontDistributionProps
    * @defaultValue No alarms or thresholds are configured.
    */
   alarmConfiguration?: CloudFrontDistributionMonitoringOptions;
+
+  /**
+   * Optional WAF web ACL to create and attach to the distribution, with AWS managed rule
+   * presets, a per-IP rate limit, IP allow and deny lists, metrics and logging.
+   *
+   * @remarks
+   * CloudFront web ACLs **must be in `us-east-1`**, so the stack must be deployed there.
+   *
+   * @defaultValue No web ACL is attached, and `AwsSolutions-CFR2` is suppressed.
+   */
+  waf?: WebAclOptions;
 }
 
 /**
@@ -224,8 +236,9 @@ type FixedApiCloudFrontDistributionProps = Omit<
  * - Optionally associates a **Lambda@Edge** *version* (e.g., at `VIEWER_REQUEST`).
  * - Creates a Route 53 **A-alias** record targeting the distribution.
  * - Applies `RemovalPolicy.DESTROY` to the distribution and alias record for easy teardown in ephemeral stages.
- * - Adds `cdk-nag` suppressions for rules that are intentionally deferred (CFR1/CFR2) and for the central logs bucket
- *   (to avoid recursive S3 server access logging).
+ * - Optionally creates and attaches a WAF **web ACL** with managed rule presets, rate limiting and IP lists.
+ * - Adds `cdk-nag` suppressions for geo-restrictions (CFR1), for WAF (CFR2) when no web ACL is attached, and for the
+ *   central logs bucket (to avoid recursive S3 server access logging).
  * - **Monitoring integration:** If {@link ApiCloudFrontDistributionProps.monitoringFacade} is provided,
  *   the construct will automatically register the created distribution by calling
  *   `monitoringFacade.monitorCloudFrontDistribution({ distribution })`. Use this to attach metrics, alarms,
@@ -300,6 +313,10 @@ export class ApiCloudFrontDistribution extends Construct {
    * - The construct adds a `cdk-nag` suppression for `AwsSolutions-S1` to avoid recursive logging on the log bucket itself.
    */
   public readonly accessLogsBucket: s3.Bucket;
+  /**
+   * The web ACL attached to the distribution, when {@link ApiCloudFrontDistributionProps.waf} is set.
+   */
+  public readonly webAcl?: WebAcl;
   private readonly api: apigw.RestApi;
 
   /**
@@ -352,6 +369,14 @@ export class ApiCloudFrontDistribution extends Construct {
       },
     ]);
 
+    if (props.waf) {
+      this.webAcl = new WebAcl(this, `${id}WebAcl`, {
+        ...props.waf,
+        stageName: props.stageName,
+        scope: WebAclScope.CloudFront,
+      });
+    }
+
     const fixedProps: FixedApiCloudFrontDistributionProps = {
       httpVersion: cloudFront.HttpVersion.HTTP3,
       defaultBehavior: {
@@ -377,6 +402,7 @@ export class ApiCloudFrontDistribution extends Construct {
       logBucket: this.accessLogsBucket,
       certificate: props.domainCertificate,
       enableLogging: true,
+      webAclId: this.webAcl?.webAclArn,
     };
 
     this.distribution = new cloudFront.Distribution(
@@ -402,11 +428,15 @@ export class ApiCloudFrontDistribution extends Construct {
           reason:
             'This construct is currently not configured to enforce geo-restrictions.',
         },
-        {
-          id: 'AwsSolutions-CFR2',
-          reason:
-            'This construct is currently not configured to enforce WAF, this will be a future enhancement.',
-        },
+        ...(this.webAcl
+          ? []
+          : [
+              {
+                id: 'AwsSolutions-CFR2',
+                reason:
+                  'WAF has not been enabled for this distribution; set the waf property to attach a web ACL.',
+              },
+            ]),
       ],
       true,
     );
@@ -2,5 +2,7 @@ export * from './api-gateway-cloudfront-distribution';
 export * from './cloudwatch-dashboard';
 export * from './custom-stack';
 export * from './idempotency-table';
+export * from './progressive-function';
 export * from './progressive-lambda';
 export * from './rest-api';
+export * from './web-acl';
@@ -0,0 +1,254 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import {
+  AsyncFailureMode,
+  ProgressiveFunction,
+  type ProgressiveFunctionOptions,
+} from './progressive-function';
+
+describe('ProgressiveFunction', () => {
+  let stack: cdk.Stack;
+  let defaultOptions: ProgressiveFunctionOptions;
+
+  const pythonFunctionProps: lambda.FunctionProps = {
+    runtime: lambda.Runtime.PYTHON_3_13,
+    handler: 'index.handler',
+    code: lambda.Code.fromInline('def handler(event, context):\n  return {}'),
+  };
+
+  beforeEach(() => {
+    stack = new cdk.Stack();
+
+    defaultOptions = {
+      stageName: 'dev',
+      deploymentConfig:
+        codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+      alarmEnabled: true,
+      namespace: 'TestNamespace',
+      serviceName: 'TestService',
+      metricErrorName: 'ErrorMetric',
+      region: 'us-east-1',
+    };
+  });
+
+  describe('Function factory', () => {
+    it('should create a Python function inside the construct', () => {
+      const progressiveFunction = new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      expect(progressiveFunction.lambda.node.scope).toBe(progressiveFunction);
+      expect(progressiveFunction.lambda.node.id).toBe('Orders');
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Runtime: 'python3.13',
+        Handler: 'index.handler',
+      });
+      template.hasResourceProperties('AWS::Lambda::Alias', {
+        Name: 'dev',
+      });
+      template.resourceCountIs('AWS::CodeDeploy::DeploymentGroup', 1);
+      template.resourceCountIs('AWS::CloudWatch::Alarm', 4);
+    });
+
+    it('should not apply Node.js defaults to the created function', () => {
+      new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Runtime: 'python3.13',
+        MemorySize: Match.absent(),
+        TracingConfig: Match.absent(),
+      });
+    });
+  });
+
+  describe('Existing function', () => {
+    it('should wrap a function created outside the construct', () => {
+      const existingFunction = new lambda.Function(
+        stack,
+        'ExistingFunction',
+        pythonFunctionProps,
+      );
+
+      const progressiveFunction = new ProgressiveFunction(stack, 'Reports', {
+        ...defaultOptions,
+        lambdaFunction: existingFunction,
+      });
+
+      expect(progressiveFunction.lambda).toBe(existingFunction);
+      expect(existingFunction.node.scope).toBe(stack);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::Lambda::Function', 1);
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName:
+          'CodeDeployDefault.LambdaLinear10PercentEvery1Minute',
+      });
+    });
+  });
+
+  describe('Native Lambda alarms', () => {
+    it('should default the p99 duration budget to 80% of the function timeout', () => {
+      new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, {
+            ...pythonFunctionProps,
+            timeout: cdk.Duration.seconds(10),
+          }),
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::CloudWatch::Alarm',
+        {
+          MetricName: 'Duration',
+          ExtendedStatistic: 'p99',
+          Threshold: 8000,
+        },
+      );
+    });
+
+    it('should fall back to the Lambda default timeout when none is set', () => {
+      new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::CloudWatch::Alarm',
+        {
+          MetricName: 'Duration',
+          Threshold: 2400,
+        },
+      );
+    });
+  });
+
+  describe('Async invocation failure handling', () => {
+    it('should give a factory the dead-letter queue to create the function with', () => {
+      const progressiveFunction = new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        asyncInvocation: { failureMode: AsyncFailureMode.DeadLetterQueue },
+        lambdaFunction: (scope, id, functionProps) =>
+          new lambda.Function(scope, id, {
+            ...pythonFunctionProps,
+            ...functionProps,
+          }),
+      });
+
+      expect(progressiveFunction.deadLetterQueue).toBeDefined();
+      expect(progressiveFunction.lambda.deadLetterQueue).toBe(
+        progressiveFunction.deadLetterQueue,
+      );
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: {
+          TargetArn: stack.resolve(
+            progressiveFunction.deadLetterQueue?.queueArn,
+          ),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: 'sqs:SendMessage',
+              Effect: 'Allow',
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('should set the dead-letter queue on the resource of an existing function', () => {
+      const existingFunction = new lambda.Function(
+        stack,
+        'Billing',
+        pythonFunctionProps,
+      );
+
+      const progressiveFunction = new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        asyncInvocation: { failureMode: AsyncFailureMode.DeadLetterQueue },
+        lambdaFunction: existingFunction,
+      });
+
+      expect(existingFunction.deadLetterQueue).toBeUndefined();
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: {
+          TargetArn: stack.resolve(
+            progressiveFunction.deadLetterQueue?.queueArn,
+          ),
+        },
+      });
+    });
+
+    it('should set the dead-letter queue on the wrapped function when the factory ignores it', () => {
+      const progressiveFunction = new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        asyncInvocation: { failureMode: AsyncFailureMode.DeadLetterQueue },
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      expect(progressiveFunction.deadLetterQueue).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: {
+          TargetArn: Match.anyValue(),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: Match.arrayWith(['sqs:SendMessage']),
+              Effect: 'Allow',
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('should leave the function configuration alone for on-failure destinations', () => {
+      new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        asyncInvocation: {
+          failureMode: AsyncFailureMode.OnFailureDestination,
+        },
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: Match.absent(),
+      });
+    });
+  });
+
+  describe('Widgets', () => {
+    it('should create widgets for a non-Node.js function', () => {
+      const progressiveFunction = new ProgressiveFunction(stack, 'Orders', {
+        ...defaultOptions,
+        createWidget: true,
+        lambdaFunction: (scope, id) =>
+          new lambda.Function(scope, id, pythonFunctionProps),
+      });
+
+      expect(progressiveFunction.widgets).toHaveLength(8);
+    });
+  });
+});
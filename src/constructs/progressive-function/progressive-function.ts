@@ -0,0 +1,2250 @@
+import * as cdk from 'aws-cdk-lib';
+import { Duration, RemovalPolicy } from 'aws-cdk-lib';
+import type * as appScaling from 'aws-cdk-lib/aws-applicationautoscaling';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as actions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import type * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventTargets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import type * as kinesis from 'aws-cdk-lib/aws-kinesis';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as destinations from 'aws-cdk-lib/aws-lambda-destinations';
+import * as eventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as nodeLambda from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as scheduler from 'aws-cdk-lib/aws-scheduler';
+import * as schedulerTargets from 'aws-cdk-lib/aws-scheduler-targets';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { NagSuppressions } from 'cdk-nag';
+import { Construct } from 'constructs';
+import { Stage, type StageDeploymentConfigs } from '../../types';
+import {
+  generateResourceName,
+  getDeploymentConfigFromStage,
+  getRemovalPolicyFromStage,
+} from '../../utils';
+
+/**
+ * A CodeDeploy lifecycle hook for a ProgressiveFunction or ProgressiveLambda deployment.
+ *
+ * Either an existing function, or the props for a NodejsFunction that the construct
+ * bundles for you (typically just an `entry` file).
+ *
+ * @example
+ * ```typescript
+ * // Bundle a smoke test handler from an entry file
+ * preTrafficHook: { entry: 'src/hooks/pre-traffic.ts' }
+ *
+ * // Reuse an existing function
+ * postTrafficHook: lambda.Function.fromFunctionName(this, 'PostHook', 'CodeDeployHook_post')
+ * ```
+ */
+export type ProgressiveLambdaHook =
+  | lambda.IFunction
+  | nodeLambda.NodejsFunctionProps;
+
+/**
+ * A named scheduled scaling window for the provisioned concurrency on the stage alias.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'BusinessHours',
+ *   schedule: appScaling.Schedule.cron({ hour: '8', minute: '0', weekDay: 'MON-FRI' }),
+ *   timeZone: cdk.TimeZone.EUROPE_LONDON,
+ *   minCapacity: 20,
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaScheduledScaling
+  extends appScaling.ScalingSchedule {
+  /**
+   * Unique name for the scheduled action, used as its construct identifier.
+   */
+  name: string;
+}
+
+/**
+ * Application auto-scaling for the provisioned concurrency on the stage alias.
+ */
+export interface ProgressiveLambdaAutoScaling {
+  /**
+   * Minimum provisioned concurrency.
+   *
+   * @default - the value of `provisionedConcurrency`, or 1
+   */
+  minCapacity?: number;
+
+  /**
+   * Maximum provisioned concurrency.
+   */
+  maxCapacity: number;
+
+  /**
+   * Target provisioned concurrency utilisation (between 0.1 and 0.9) to track.
+   *
+   * @default 0.7
+   */
+  utilizationTarget?: number;
+
+  /**
+   * Optional scheduled scaling windows, for example to pre-warm before business hours.
+   *
+   * @default - no scheduled scaling
+   */
+  schedules?: ProgressiveLambdaScheduledScaling[];
+}
+
+/**
+ * How failed asynchronous invocations are captured.
+ * @readonly
+ * @enum {string}
+ */
+export enum AsyncFailureMode {
+  /** Function-level SQS dead-letter queue (`DeadLetterConfig`). */
+  DeadLetterQueue = 'deadLetterQueue',
+  /** Alias-scoped SQS on-failure destination, which also captures the request and response context. */
+  OnFailureDestination = 'onFailureDestination',
+}
+
+/**
+ * Failure handling for asynchronous invocations (e.g. from EventBridge or S3).
+ */
+export interface ProgressiveLambdaAsyncInvocation {
+  /**
+   * How failed events are captured in the encrypted SQS queue created by the construct.
+   *
+   * @default AsyncFailureMode.DeadLetterQueue
+   */
+  failureMode?: AsyncFailureMode;
+
+  /**
+   * Maximum number of times to retry when the function returns an error (0-2).
+   *
+   * @default - 2 (the Lambda service default)
+   */
+  retryAttempts?: number;
+
+  /**
+   * Maximum age of an event before it is discarded or sent to the failure queue (60 seconds to 6 hours).
+   *
+   * @default - 6 hours (the Lambda service default)
+   */
+  maxEventAge?: Duration;
+
+  /**
+   * Number of visible messages in the failure queue that triggers the rollback alarm.
+   *
+   * @default 1
+   */
+  alarmThreshold?: number;
+}
+
+/**
+ * A function URL attached to the stage alias.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   authType: lambda.FunctionUrlAuthType.AWS_IAM,
+ *   cors: { allowedOrigins: ['https://tools.example.com'] },
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaFunctionUrl {
+  /**
+   * How requests to the URL are authenticated.
+   *
+   * `NONE` makes the function publicly invocable and is rejected for the `prod` stage.
+   *
+   * @default lambda.FunctionUrlAuthType.AWS_IAM
+   */
+  authType?: lambda.FunctionUrlAuthType;
+
+  /**
+   * Cross-origin resource sharing (CORS) settings for the URL.
+   *
+   * @default - no CORS configuration
+   */
+  cors?: lambda.FunctionUrlCorsOptions;
+
+  /**
+   * Whether responses are buffered or streamed.
+   *
+   * @default lambda.InvokeMode.BUFFERED
+   */
+  invokeMode?: lambda.InvokeMode;
+}
+
+/**
+ * Options for an SQS event source bound to the stage alias.
+ */
+export interface ProgressiveLambdaSqsEventSource
+  extends eventSources.SqsEventSourceProps {
+  /**
+   * Age of the oldest message in the queue that triggers the rollback alarm.
+   *
+   * @default Duration.minutes(5)
+   */
+  maxMessageAge?: Duration;
+}
+
+/**
+ * Options for a Kinesis stream event source bound to the stage alias.
+ */
+export interface ProgressiveLambdaKinesisEventSource
+  extends eventSources.KinesisEventSourceProps {
+  /**
+   * Iterator age of the alias that triggers the rollback alarm.
+   *
+   * Stream sources share one alarm on the alias iterator age, which uses
+   * the smallest value given.
+   *
+   * @default Duration.minutes(1)
+   */
+  maxIteratorAge?: Duration;
+}
+
+/**
+ * Options for a DynamoDB stream event source bound to the stage alias.
+ */
+export interface ProgressiveLambdaDynamoEventSource
+  extends eventSources.DynamoEventSourceProps {
+  /**
+   * Iterator age of the alias that triggers the rollback alarm.
+   *
+   * Stream sources share one alarm on the alias iterator age, which uses
+   * the smallest value given.
+   *
+   * @default Duration.minutes(1)
+   */
+  maxIteratorAge?: Duration;
+}
+
+/**
+ * Retry policy and payload for an EventBridge rule or schedule that invokes the stage alias.
+ *
+ * Events that still fail after the retries are sent to the construct's
+ * {@link ProgressiveFunction.targetDeadLetterQueue}.
+ */
+export interface ProgressiveLambdaTargetOptions {
+  /**
+   * Payload passed to the function.
+   *
+   * @default - the matched event (rules) or no payload (schedules)
+   */
+  input?: Record<string, unknown>;
+
+  /**
+   * Maximum number of times to retry a failed invocation (0-185).
+   *
+   * @default 2
+   */
+  retryAttempts?: number;
+
+  /**
+   * Maximum age of an event that is still retried (60 seconds to 24 hours).
+   *
+   * @default Duration.hours(1)
+   */
+  maxEventAge?: Duration;
+}
+
+/**
+ * A scheduled invocation of the stage alias.
+ *
+ * @example
+ * ```typescript
+ * // EventBridge rule, evaluated in UTC
+ * { name: 'nightly-report', schedule: events.Schedule.cron({ hour: '2', minute: '0' }) }
+ *
+ * // EventBridge Scheduler, with a time zone
+ * {
+ *   name: 'morning-digest',
+ *   schedule: scheduler.ScheduleExpression.cron({
+ *     hour: '8',
+ *     minute: '0',
+ *     timeZone: cdk.TimeZone.EUROPE_LONDON,
+ *   }),
+ *   input: { digest: 'daily' },
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaSchedule
+  extends ProgressiveLambdaTargetOptions {
+  /**
+   * Name of the schedule, used in the construct id and the generated resource name.
+   */
+  name: string;
+
+  /**
+   * When the function is invoked.
+   *
+   * An `events.Schedule` creates an EventBridge rule (UTC only). A
+   * `scheduler.ScheduleExpression` creates an EventBridge Scheduler schedule, which
+   * supports time zones and one-off `at` expressions.
+   */
+  schedule: events.Schedule | scheduler.ScheduleExpression;
+
+  /**
+   * Description of the rule or schedule.
+   *
+   * @default - no description
+   */
+  description?: string;
+}
+
+/**
+ * An EventBridge rule that invokes the stage alias.
+ */
+export interface ProgressiveLambdaEventRule
+  extends Omit<events.RuleProps, 'targets' | 'ruleName'>,
+    ProgressiveLambdaTargetOptions {}
+
+/**
+ * A pair of look-back windows that must both exceed a burn rate for the SLO alarm to fire.
+ *
+ * The long window shows the error budget is really being spent, the short window
+ * lets the alarm reset quickly once the problem stops.
+ *
+ * @see {@link https://sre.google/workbook/alerting-on-slos/ | Alerting on SLOs}
+ */
+export interface ProgressiveLambdaBurnRateWindow {
+  /**
+   * Name of the window pair, used in the alarm construct ids (e.g. 'Fast', 'Slow').
+   */
+  name: string;
+
+  /**
+   * Long look-back window.
+   */
+  longWindow: Duration;
+
+  /**
+   * Short look-back window, typically 1/12 of the long window.
+   */
+  shortWindow: Duration;
+
+  /**
+   * Multiple of the sustainable error rate that triggers the alarm.
+   *
+   * A burn rate of 1 spends the whole error budget over the SLO period.
+   */
+  burnRate: number;
+}
+
+/**
+ * Latency objective for invocations served by the stage alias.
+ */
+export interface ProgressiveLambdaLatencyTarget {
+  /**
+   * Invocations taking longer than this are counted against the error budget.
+   */
+  threshold: Duration;
+
+  /**
+   * Percentage of invocations that must complete within `threshold` (e.g. 99).
+   */
+  target: number;
+}
+
+/**
+ * Service level objectives that drive multi-window burn-rate alarms.
+ *
+ * @example
+ * ```typescript
+ * slo: {
+ *   availabilityTarget: 99.9,
+ *   latencyTarget: { threshold: cdk.Duration.millis(500), target: 99 },
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaSlo {
+  /**
+   * Percentage of operations that must succeed, measured from the success and error metrics (e.g. 99.9).
+   *
+   * @default - no availability objective
+   */
+  availabilityTarget?: number;
+
+  /**
+   * Latency objective, measured from the alias `AWS/Lambda` Duration metric.
+   *
+   * @default - no latency objective
+   */
+  latencyTarget?: ProgressiveLambdaLatencyTarget;
+
+  /**
+   * Window pairs and burn rates to alarm on.
+   *
+   * @default - 'Fast' (1 hour and 5 minutes at 14.4x) and 'Slow' (6 hours and 30 minutes at 6x)
+   */
+  burnRateWindows?: ProgressiveLambdaBurnRateWindow[];
+}
+
+/**
+ * Anomaly detection alarms for functions with strongly seasonal traffic.
+ *
+ * @example
+ * ```typescript
+ * anomalyDetection: {
+ *   bandWidth: 3,
+ *   duration: true,
+ *   replaceThresholdAlarms: true,
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaAnomalyDetection {
+  /**
+   * Width of the anomaly detection band in standard deviations; wider bands alarm less often.
+   *
+   * @default 2
+   */
+  bandWidth?: number;
+
+  /**
+   * Also alarm when the alias p99 Duration rises above its band.
+   *
+   * @default false
+   */
+  duration?: boolean;
+
+  /**
+   * Use the anomaly alarms in place of the static error (and, with `duration`, p99 Duration)
+   * threshold alarms, rather than next to them.
+   *
+   * @default false
+   */
+  replaceThresholdAlarms?: boolean;
+
+  /**
+   * Number of consecutive periods outside the band that trigger the alarm.
+   *
+   * @default 1
+   */
+  evaluationPeriods?: number;
+}
+
+/**
+ * Creates the Lambda function wrapped by a ProgressiveFunction.
+ *
+ * Called with the ProgressiveFunction as `scope` and its construct id, so the function
+ * sits alongside the alias, alarms and deployment group it is deployed with.
+ *
+ * Spread `functionProps` into the function's props so the function is configured the way
+ * the construct's options require.
+ *
+ * @example
+ * ```typescript
+ * (scope, id, functionProps) => new lambda.Function(scope, id, {
+ *   runtime: lambda.Runtime.PYTHON_3_13,
+ *   handler: 'app.handler',
+ *   code: lambda.Code.fromAsset('src/orders'),
+ *   ...functionProps,
+ * })
+ * ```
+ */
+export type ProgressiveFunctionFactory<T extends lambda.Function> = (
+  scope: Construct,
+  id: string,
+  functionProps: ProgressiveFunctionFactoryProps,
+) => T;
+
+/**
+ * Function props a {@link ProgressiveFunctionFactory} is given to spread into the function's props.
+ */
+export interface ProgressiveFunctionFactoryProps {
+  /**
+   * The queue failed asynchronous invocations are sent to, when `asyncInvocation` uses
+   * `AsyncFailureMode.DeadLetterQueue`. The function sets its `DeadLetterConfig` from it and
+   * grants its execution role `sqs:SendMessage`.
+   */
+  deadLetterQueue?: sqs.IQueue;
+}
+
+/**
+ * Progressive deployment, monitoring and alerting options shared by
+ * ProgressiveFunction and ProgressiveLambda.
+ */
+export interface ProgressiveFunctionOptions {
+  /**
+   * Whether to create CloudWatch dashboard widgets for monitoring.
+   *
+   * When enabled, creates the following widgets:
+   * - Text header widget named after the construct
+   * - Success metric single value widget
+   * - Error metric single value widget
+   * - Failed async events single value widget (when `asyncInvocation` is configured)
+   * - Alarm status widget for the rollback alarms, which decide whether a deployment rolls back
+   * - Invocations, errors and throttles graph widget for the alias
+   * - p50/p90/p99 duration graph widget for the alias
+   * - Concurrent executions graph widget for the alias
+   * - Traffic split by version graph widget, showing the share of alias invocations each version serves
+   *
+   * CodeDeploy deployment state is not graphed, because CodeDeploy publishes no CloudWatch
+   * metric for it.
+   *
+   * @default false
+   */
+  createWidget?: boolean;
+
+  /**
+   * The deployment stage name (e.g., 'dev', 'staging', 'prod').
+   *
+   * Used for:
+   * - Lambda alias name
+   * - CloudWatch alarm descriptions
+   * - Resource naming and tagging
+   *
+   * @example 'prod', 'dev', 'staging'
+   */
+  stageName: string;
+
+  /**
+   * The CodeDeploy application that manages this Lambda function's deployments.
+   *
+   * When omitted, the construct creates an application named
+   * `<stage>-<id>-application` using `generateResourceName`.
+   *
+   * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/applications.html | CodeDeploy Applications}
+   * @default - a stage-named application is created
+   */
+  application?: codeDeploy.ILambdaApplication;
+
+  /**
+   * The deployment configuration defining how traffic shifts during deployments.
+   *
+   * Common options:
+   * - `LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE` - Gradual linear shift
+   * - `LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES` - Canary deployment
+   * - `LambdaDeploymentConfig.ALL_AT_ONCE` - Blue/green deployment
+   *
+   * When provided, this explicit configuration overrides {@link deploymentConfigByStage}
+   * and the stage-based default policy.
+   *
+   * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/deployment-configurations.html | Deployment Configurations}
+   * @default - selected from `stageName` using {@link getDeploymentConfigFromStage}
+   */
+  deploymentConfig?: codeDeploy.ILambdaDeploymentConfig;
+
+  /**
+   * Optional per-stage deployment configurations, keyed by the `Stage` enum.
+   *
+   * Used when no explicit {@link deploymentConfig} is given. Stages missing from the map
+   * fall back to the default policy: canary for `prod`, linear for `staging` and
+   * all-at-once for `develop`, `test` and ephemeral stages.
+   *
+   * @example
+   * ```typescript
+   * deploymentConfigByStage: {
+   *   [Stage.Staging]: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+   *   [Stage.Prod]: codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+   * }
+   * ```
+   */
+  deploymentConfigByStage?: StageDeploymentConfigs;
+
+  /**
+   * Whether CloudWatch alarms should trigger actions when breached.
+   *
+   * When `false`, alarms are created but won't send notifications or trigger auto-rollbacks.
+   * Useful for testing or monitoring-only scenarios.
+   *
+   * @default true
+   */
+  alarmEnabled: boolean;
+
+  /**
+   * SNS topic for alarm notifications.
+   *
+   * When omitted, the construct creates a topic named `<stage>-<id>-alarms-topic` using
+   * `generateResourceName`. The topic enforces SSL (AwsSolutions-SNS3) and is encrypted
+   * with a customer managed KMS key that CloudWatch is allowed to use (AwsSolutions-SNS2).
+   *
+   * @remarks
+   * **Security Note**: For compliance with AwsSolutions-SNS3, ensure your SNS topic
+   * enforces SSL by adding a topic policy that denies non-HTTPS requests.
+   *
+   * @example
+   * ```typescript
+   * const topic = new sns.Topic(this, 'AlarmTopic');
+   * topic.addToResourcePolicy(new iam.PolicyStatement({
+   *   effect: iam.Effect.DENY,
+   *   principals: [new iam.AnyPrincipal()],
+   *   actions: ['sns:Publish'],
+   *   resources: [topic.topicArn],
+   *   conditions: {
+   *     Bool: { 'aws:SecureTransport': 'false' }
+   *   }
+   * }));
+   * ```
+   *
+   * @default - an encrypted, SSL-enforced topic is created
+   */
+  snsTopic?: sns.ITopic;
+
+  /**
+   * CloudWatch namespace for custom metrics.
+   *
+   * Groups related metrics together for organisation and filtering.
+   * Should follow a hierarchical naming convention.
+   *
+   * @example 'MyApp/Lambda', 'ECommerce/OrderProcessing'
+   */
+  namespace: string;
+
+  /**
+   * Service name dimension for CloudWatch metrics.
+   *
+   * Used to differentiate metrics from different services within the same namespace.
+   * Appears as a dimension in CloudWatch metrics and alarms.
+   *
+   * @example 'OrderProcessor', 'UserAuthenticator'
+   */
+  serviceName: string;
+
+  /**
+   * Name of the custom metric that tracks successful operations.
+   *
+   * This metric should be published by your Lambda function code to indicate
+   * successful processing or operations.
+   *
+   * @example 'SuccessfulOrders', 'ProcessedEvents'
+   * @default '${id}-SuccessOperation'
+   */
+  metricSuccessName?: string;
+
+  /**
+   * Display title for the success metric widget.
+   *
+   * Human-readable title shown in CloudWatch dashboards and widgets.
+   * Should clearly describe what the metric represents.
+   *
+   * @example 'Successful Order Processing', 'Events Processed Successfully'
+   * @default '${id} - Success Operation'
+   */
+  metricSuccessNameTitle?: string;
+
+  /**
+   * Name of the custom metric that tracks failed operations.
+   *
+   * This metric should be published by your Lambda function code to indicate
+   * failures or errors. Used by the CloudWatch alarm for deployment monitoring.
+   *
+   * @example 'FailedOrders', 'ProcessingErrors'
+   */
+  metricErrorName: string;
+
+  /**
+   * Display title for the error metric widget.
+   *
+   * Human-readable title shown in CloudWatch dashboards and widgets.
+   * Should clearly describe what the error metric represents.
+   *
+   * @example 'Failed Order Processing', 'Processing Errors'
+   * @default '${id} - Error Operation'
+   */
+  metricErrorNameTitle?: string;
+
+  /**
+   * AWS region where the Lambda function and associated resources are deployed.
+   *
+   * Used for CloudWatch metric configurations and cross-region references.
+   * Should match the region where the construct is deployed.
+   *
+   * @example 'us-east-1', 'eu-west-1', 'ap-southeast-2'
+   */
+  region: string;
+
+  /**
+   * Optional configuration overrides for the CloudWatch alarm.
+   *
+   * Allows customization of alarm properties such as threshold, evaluation periods,
+   * and missing data treatment. Merges with sensible defaults provided by the construct.
+   *
+   * @example
+   * ```typescript
+   * alarmConfiguration: {
+   *   threshold: 5, // Trigger alarm on 5 errors instead of default 10
+   *   evaluationPeriods: 2, // Require 2 consecutive periods to trigger
+   *   treatMissingData: cloudwatch.TreatMissingData.BREACHING, // Change missing data handling
+   * }
+   * ```
+   */
+  alarmConfiguration?: {
+    // Trigger alarm when 10 or more errors occur in the evaluation period
+    threshold?: number;
+    // Single evaluation period enables fast rollback response
+    evaluationPeriods?: number;
+    // Don't trigger alarm on missing data to avoid false positives during low traffic
+    treatMissingData?: cloudwatch.TreatMissingData;
+  };
+
+  /**
+   * Optional anomaly detection alarms, for traffic that static thresholds cannot follow.
+   *
+   * Builds a CloudWatch anomaly detection band on the custom error metric, and optionally
+   * on the alias p99 Duration, and raises a rollback alarm when the metric rises above the
+   * band. With `replaceThresholdAlarms` the error anomaly alarm becomes {@link ProgressiveFunction.alarm}.
+   *
+   * @default - static threshold alarms only
+   */
+  anomalyDetection?: ProgressiveLambdaAnomalyDetection;
+
+  /**
+   * Optional service level objectives for the function.
+   *
+   * Creates a composite burn-rate alarm per objective and window pair, which notifies the
+   * alarm topic and takes part in deployment rollback, and adds an SLO summary widget.
+   * Burn-rate alarms adapt to traffic volume, unlike the fixed error count threshold.
+   *
+   * @throws {Error} When no target is given, or a target is not between 0 and 100
+   * @default - no SLO alarms
+   */
+  slo?: ProgressiveLambdaSlo;
+
+  /**
+   * Optional configuration overrides for the alarms on the built-in `AWS/Lambda` metrics.
+   *
+   * These alarms are scoped to the stage alias (`FunctionName` + `Resource` dimensions), so
+   * they only observe traffic served through the alias that CodeDeploy is shifting. They catch
+   * failures that happen before the handler has a chance to publish the custom error metric,
+   * for example init errors, crashes, throttling and timeouts.
+   *
+   * @example
+   * ```typescript
+   * lambdaAlarmConfiguration: {
+   *   errorsThreshold: 1, // Roll back on the first native Lambda error
+   *   durationThreshold: cdk.Duration.seconds(3), // p99 latency budget
+   * }
+   * ```
+   */
+  lambdaAlarmConfiguration?: {
+    // Trigger alarm when 5 or more invocation errors occur in the evaluation period
+    errorsThreshold?: number;
+    // Trigger alarm when 5 or more throttled invocations occur in the evaluation period
+    throttlesThreshold?: number;
+    // p99 duration budget, defaults to 80% of the function timeout
+    durationThreshold?: Duration;
+    // Single evaluation period enables fast rollback response
+    evaluationPeriods?: number;
+    // Don't trigger alarm on missing data to avoid false positives during low traffic
+    treatMissingData?: cloudwatch.TreatMissingData;
+  };
+
+  /**
+   * Optional validation hook that CodeDeploy runs before any traffic is shifted to the new version.
+   *
+   * When given an entry file (or other NodejsFunction props) the construct bundles the hook,
+   * exposes the new version ARN as the `TARGET_FUNCTION_ARN` environment variable, and grants
+   * it permission to invoke that version. The hook is granted
+   * `codedeploy:PutLifecycleEventHookExecutionStatus` on the deployment group and must report
+   * `Succeeded` or `Failed` for the deployment to continue.
+   *
+   * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/reference-appspec-file-structure-hooks.html#appspec-hooks-lambda | AppSpec hooks for Lambda}
+   */
+  preTrafficHook?: ProgressiveLambdaHook;
+
+  /**
+   * Optional validation hook that CodeDeploy runs after all traffic has been shifted to the new version.
+   *
+   * Accepts the same inputs and receives the same grants as {@link preTrafficHook}.
+   */
+  postTrafficHook?: ProgressiveLambdaHook;
+
+  /**
+   * Provisioned concurrent executions to allocate on the stage alias.
+   *
+   * Provisioned concurrency is configured on the alias that CodeDeploy shifts, so it follows
+   * the new version through each canary or linear step.
+   *
+   * @default - no provisioned concurrency
+   */
+  provisionedConcurrency?: number;
+
+  /**
+   * Optional application auto-scaling for the provisioned concurrency on the stage alias.
+   *
+   * Supports target tracking on provisioned concurrency utilisation and scheduled scaling
+   * windows. The scalable target is registered against the same alias CodeDeploy shifts.
+   *
+   * @example
+   * ```typescript
+   * provisionedConcurrency: 5,
+   * autoScaling: {
+   *   maxCapacity: 50,
+   *   utilizationTarget: 0.7,
+   *   schedules: [
+   *     {
+   *       name: 'BusinessHours',
+   *       schedule: appScaling.Schedule.cron({ hour: '8', minute: '0' }),
+   *       minCapacity: 20,
+   *     },
+   *   ],
+   * }
+   * ```
+   *
+   * @default - no auto-scaling
+   */
+  autoScaling?: ProgressiveLambdaAutoScaling;
+
+  /**
+   * Opt-in failure handling for asynchronous invocations.
+   *
+   * Creates an encrypted, SSL-enforced SQS queue named `<stage>-<id>-dlq`, wires it up as a
+   * dead-letter queue or an on-failure destination, and adds an alarm on queue depth that
+   * takes part in deployment rollback and the generated widgets.
+   *
+   * @example
+   * ```typescript
+   * asyncInvocation: {
+   *   failureMode: AsyncFailureMode.OnFailureDestination,
+   *   retryAttempts: 1,
+   *   maxEventAge: cdk.Duration.hours(1),
+   * }
+   * ```
+   *
+   * @default - failed asynchronous events are discarded after retries
+   */
+  asyncInvocation?: ProgressiveLambdaAsyncInvocation;
+
+  /**
+   * Optional scheduled invocations of the stage alias.
+   *
+   * Each schedule targets the alias so scheduled jobs follow the progressive rollout, and
+   * sends events that still fail after retries to {@link ProgressiveFunction.targetDeadLetterQueue}.
+   * A Scheduler `ScheduleExpression` creates a schedule named `<stage>-<id>-<name>-schedule`;
+   * an EventBridge `Schedule` creates a rule through {@link ProgressiveFunction.addEventRule},
+   * named `<stage>-<id>-<name>-rule`. Both names use `generateResourceName`.
+   *
+   * @default - no schedules
+   */
+  schedules?: ProgressiveLambdaSchedule[];
+
+  /**
+   * Optional function URL for callers that invoke the function directly over HTTPS.
+   *
+   * The URL is attached to the stage alias rather than `$LATEST`, so requests follow the
+   * CodeDeploy traffic shift. The URL is exposed as {@link ProgressiveFunction.functionUrl}
+   * and as a stack output.
+   *
+   * @throws {Error} When `authType` is `NONE` for the `prod` stage
+   * @default - no function URL
+   */
+  functionUrl?: ProgressiveLambdaFunctionUrl;
+}
+
+/**
+ * Configuration properties for the ProgressiveFunction construct.
+ */
+export interface ProgressiveFunctionProps<
+  T extends lambda.Function = lambda.Function,
+> extends ProgressiveFunctionOptions {
+  /**
+   * The Lambda function to deploy progressively, or a factory that creates it.
+   *
+   * Accepts any `lambda.Function`, for example a Python function, a `DockerImageFunction`
+   * or a function built with `Code.fromAsset`. Use a factory to create the function inside
+   * this construct; an existing function keeps its own scope.
+   *
+   * When `asyncInvocation` uses `AsyncFailureMode.DeadLetterQueue`, a factory is given the
+   * dead-letter queue to create the function with. An existing function, or one whose factory
+   * does not use the queue, gets it set on its `AWS::Lambda::Function` resource instead,
+   * replacing any queue it was created with; its `deadLetterQueue` property is left unchanged
+   * and the construct grants its role `sqs:SendMessage` itself.
+   *
+   * @example
+   * ```typescript
+   * lambdaFunction: (scope, id, functionProps) =>
+   *   new lambda.DockerImageFunction(scope, id, {
+   *     code: lambda.DockerImageCode.fromImageAsset('src/orders'),
+   *     ...functionProps,
+   *   })
+   * ```
+   */
+  lambdaFunction: T | ProgressiveFunctionFactory<T>;
+}
+
+/**
+ * A service level objective resolved to the percentage of bad events it is measured by.
+ */
+interface SloObjective {
+  /** Objective name, used in construct ids and labels. */
+  name: string;
+  /** Percentage of good events required. */
+  target: number;
+  /** Percentage of bad events the objective allows. */
+  budget: number;
+  /** Percentage of bad events over the given period. */
+  metricBadPercent: (period: Duration) => cloudwatch.IMetric;
+}
+
+/**
+ * Progressive deployment, monitoring and alerting for any Lambda function.
+ *
+ * ## Overview
+ *
+ * Wraps a `lambda.Function` of any runtime or packaging (Node.js, Python, container
+ * image, `Code.fromAsset`) with:
+ * - **Progressive Deployments**: A stage alias shifted by AWS CodeDeploy
+ * - **Error Monitoring**: Custom and native `AWS/Lambda` alarms that trigger rollbacks
+ * - **Observability**: Optional dashboard widgets
+ * - **Performance**: Optional provisioned concurrency and auto-scaling on the alias
+ *
+ * Use {@link ProgressiveLambda} for Node.js functions bundled from an entry file; it is
+ * a ProgressiveFunction that creates a `NodejsFunction` with secure defaults.
+ *
+ * @example
+ * ```typescript
+ * // Python function created by the construct
+ * const orders = new ProgressiveFunction(this, 'Orders', {
+ *   lambdaFunction: (scope, id, functionProps) =>
+ *     new lambda.Function(scope, id, {
+ *       runtime: lambda.Runtime.PYTHON_3_13,
+ *       handler: 'app.handler',
+ *       code: lambda.Code.fromAsset('src/orders'),
+ *       tracing: lambda.Tracing.ACTIVE,
+ *       ...functionProps,
+ *     }),
+ *   stageName: 'prod',
+ *   alarmEnabled: true,
+ *   namespace: 'ECommerce',
+ *   serviceName: 'Orders',
+ *   metricErrorName: 'OrderErrors',
+ *   region: 'eu-west-1',
+ * });
+ *
+ * // Existing container image function
+ * const reports = new ProgressiveFunction(this, 'Reports', {
+ *   lambdaFunction: reportsFunction,
+ *   // ... other props
+ * });
+ * ```
+ *
+ * @remarks
+ * **Security Considerations:**
+ * - The runtime, tracing and IAM configuration of the wrapped function are left to the caller
+ * - Creates an SSL-enforced, KMS-encrypted SNS topic when none is provided (AwsSolutions-SNS2/SNS3)
+ */
+export class ProgressiveFunction<
+  T extends lambda.Function = lambda.Function,
+> extends Construct {
+  /**
+   * The underlying Lambda function.
+   *
+   * Provides access to the wrapped function for additional configuration,
+   * permissions, or integration with other AWS services.
+   */
+  public readonly lambda: T;
+
+  /**
+   * Lambda alias for traffic management during deployments.
+   *
+   * Points to the current version and is used by CodeDeploy to shift traffic
+   * between versions during progressive deployments.
+   */
+  public readonly alias: lambda.Alias;
+
+  /**
+   * Scalable provisioned concurrency on the stage alias (when `autoScaling` is configured).
+   *
+   * Use this to add further scaling policies, for example `scaleOnSchedule`.
+   */
+  public readonly scalableTarget?: lambda.IScalableFunctionAttribute;
+
+  /**
+   * Queue capturing failed asynchronous invocations (when `asyncInvocation` is configured).
+   *
+   * Used as the function's dead-letter queue or as the alias on-failure destination,
+   * depending on {@link ProgressiveLambdaAsyncInvocation.failureMode}.
+   */
+  public readonly deadLetterQueue?: sqs.Queue;
+
+  /**
+   * Function URL on the stage alias (when `functionUrl` is configured).
+   */
+  public readonly functionUrl?: lambda.FunctionUrl;
+
+  /**
+   * CloudWatch alarm that monitors error metrics.
+   *
+   * Triggers when error count exceeds threshold, or rises above its anomaly band when
+   * `anomalyDetection.replaceThresholdAlarms` is set, causing CodeDeploy to
+   * automatically rollback the deployment to the previous version.
+   */
+  public readonly alarm: cloudwatch.Alarm;
+
+  /**
+   * All CloudWatch alarms that take part in deployment rollback.
+   *
+   * Contains the custom error metric {@link alarm} followed by the alias-scoped
+   * `AWS/Lambda` Errors, Throttles and p99 Duration alarms, then any anomaly detection
+   * alarms added next to them. Every alarm in this array is registered with the
+   * {@link deploymentGroup}.
+   */
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  /**
+   * Composite burn-rate alarms for the service level objectives (when `slo` is configured).
+   *
+   * One alarm per objective and window pair, each firing when both the long and the
+   * short window exceed the burn rate. Every alarm in this array is registered with
+   * the {@link deploymentGroup}.
+   */
+  public readonly sloAlarms: cloudwatch.CompositeAlarm[] = [];
+
+  /**
+   * CodeDeploy deployment group managing progressive rollouts.
+   *
+   * Orchestrates traffic shifting between Lambda versions based on the
+   * configured deployment strategy and alarm status.
+   */
+  public readonly deploymentGroup: codeDeploy.LambdaDeploymentGroup;
+
+  /**
+   * Hook function run by CodeDeploy before traffic shifting (when configured).
+   */
+  public readonly preTrafficHook?: lambda.IFunction;
+
+  /**
+   * Hook function run by CodeDeploy after traffic shifting (when configured).
+   */
+  public readonly postTrafficHook?: lambda.IFunction;
+
+  /**
+   * CloudWatch dashboard widgets for monitoring (when enabled).
+   *
+   * Contains the following widgets when `createWidget` is true:
+   * 1. Text header widget named after the construct
+   * 2. Success metric single value widget
+   * 3. Error metric single value widget
+   * 4. Failed async events single value widget (when `asyncInvocation` is configured)
+   * 5. SLO summary single value widget (when `slo` is configured)
+   * 6. Alarm status widget for the rollback alarms
+   * 7. Invocations, errors and throttles graph widget
+   * 8. p50/p90/p99 duration graph widget
+   * 9. Concurrent executions graph widget
+   * 10. Traffic split by version graph widget
+   *
+   * Add to dashboards using: `dashboard.addWidgets(...lambda.widgets)`
+   */
+  public readonly widgets: cloudwatch.ConcreteWidget[] = [];
+
+  /**
+   * CodeDeploy application that owns the deployment group.
+   *
+   * Either the application passed in props or the one created by the construct.
+   */
+  public readonly application: codeDeploy.ILambdaApplication;
+
+  /**
+   * SNS topic that receives alarm notifications.
+   *
+   * Either the topic passed in props or the encrypted topic created by the construct.
+   */
+  public readonly snsTopic: sns.ITopic;
+
+  /** @internal Deployment configuration reference for progressive rollout strategy. */
+  private readonly deploymentConfig: codeDeploy.ILambdaDeploymentConfig;
+
+  /** @internal Stage used in the descriptions of alarms added after construction. */
+  private readonly stageName: string;
+
+  /** @internal Whether alarms added after construction trigger actions. */
+  private readonly alarmEnabled: boolean;
+
+  /** @internal Dead-letter queue shared by rule and schedule targets, created on first use. */
+  private _targetDeadLetterQueue?: sqs.Queue;
+
+  /** @internal Smallest iterator age in milliseconds given by a stream source, set with the shared alarm. */
+  private _maxIteratorAgeMs?: number;
+
+  /** @internal Every alarm that rolls a deployment back, including the SLO alarms. */
+  private readonly rollbackAlarms: cloudwatch.IAlarm[] = [];
+
+  private defaultAlarmConfig = {
+    threshold: 10,
+    evaluationPeriods: 1,
+    treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+  };
+
+  private defaultLambdaAlarmConfig = {
+    errorsThreshold: 5,
+    throttlesThreshold: 5,
+    evaluationPeriods: 1,
+    treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+  };
+
+  // CodeDeploy accepts at most 10 alarms per deployment group
+  private readonly maxRollbackAlarms = 10;
+
+  private defaultBurnRateWindows: ProgressiveLambdaBurnRateWindow[] = [
+    // Pages on a fast spend: 2% of a 30 day budget in 1 hour
+    {
+      name: 'Fast',
+      longWindow: Duration.hours(1),
+      shortWindow: Duration.minutes(5),
+      burnRate: 14.4,
+    },
+    // Catches a slower spend: 5% of a 30 day budget in 6 hours
+    {
+      name: 'Slow',
+      longWindow: Duration.hours(6),
+      shortWindow: Duration.minutes(30),
+      burnRate: 6,
+    },
+  ];
+
+  /**
+   * Creates a new ProgressiveFunction construct.
+   *
+   * @param scope - The construct scope
+   * @param id - The construct identifier
+   * @param props - Configuration properties
+   */
+  constructor(
+    scope: Construct,
+    id: string,
+    props: ProgressiveFunctionProps<T>,
+  ) {
+    super(scope, id);
+
+    // Extract widget creation flag for cleaner conditional logic
+    const createWidget = !!props?.createWidget;
+
+    this.stageName = props.stageName;
+    this.alarmEnabled = props.alarmEnabled;
+
+    // Store CodeDeploy references for deployment group creation, creating a
+    // stage-named application when none is shared across functions
+    this.application =
+      props.application ??
+      new codeDeploy.LambdaApplication(this, `${id}Application`, {
+        applicationName: generateResourceName({
+          stage: props.stageName,
+          service: id,
+          resource: 'application',
+        }),
+      });
+    // An explicit deployment config wins, otherwise select one from the stage
+    this.deploymentConfig =
+      props.deploymentConfig ??
+      getDeploymentConfigFromStage(
+        props.stageName,
+        props.deploymentConfigByStage,
+      );
+
+    const failureMode =
+      props.asyncInvocation?.failureMode ?? AsyncFailureMode.DeadLetterQueue;
+
+    // Create an encrypted queue to capture failed asynchronous invocations
+    if (props.asyncInvocation) {
+      this.deadLetterQueue = new sqs.Queue(this, `${id}DeadLetterQueue`, {
+        queueName: generateResourceName({
+          stage: props.stageName,
+          service: id,
+          resource: 'dlq',
+        }),
+        encryption: sqs.QueueEncryption.KMS_MANAGED,
+        enforceSSL: true,
+        retentionPeriod: Duration.days(14),
+      });
+
+      NagSuppressions.addResourceSuppressions(this.deadLetterQueue, [
+        {
+          id: 'AwsSolutions-SQS3',
+          reason:
+            'This queue is the dead-letter queue or on-failure destination for the Lambda function.',
+        },
+      ]);
+    }
+
+    // Route failed async events to the queue from the function configuration
+    const functionDeadLetterQueue =
+      failureMode === AsyncFailureMode.DeadLetterQueue
+        ? this.deadLetterQueue
+        : undefined;
+
+    // Use the given function, or create it inside this construct
+    this.lambda = Construct.isConstruct(props.lambdaFunction)
+      ? props.lambdaFunction
+      : props.lambdaFunction(this, id, {
+          ...(functionDeadLetterQueue && {
+            deadLetterQueue: functionDeadLetterQueue,
+          }),
+        });
+
+    // Functions not created with the queue get it on the resource, with an explicit grant
+    if (
+      functionDeadLetterQueue &&
+      this.lambda.deadLetterQueue !== functionDeadLetterQueue
+    ) {
+      const cfnFunction = this.lambda.node.defaultChild as lambda.CfnFunction;
+      cfnFunction.deadLetterConfig = {
+        targetArn: functionDeadLetterQueue.queueArn,
+      };
+      functionDeadLetterQueue.grantSendMessages(this.lambda);
+    }
+
+    // Create Lambda alias for traffic management during deployments
+    // The alias provides a stable endpoint that CodeDeploy can shift traffic between versions
+    this.alias = new lambda.Alias(this, `${id}Alias`, {
+      aliasName: props.stageName,
+      version: this.lambda.currentVersion,
+      provisionedConcurrentExecutions: props.provisionedConcurrency,
+    });
+
+    // Configure retries and the on-failure destination on the alias that receives async events
+    if (props.asyncInvocation) {
+      const { retryAttempts, maxEventAge } = props.asyncInvocation;
+      const onFailure =
+        this.deadLetterQueue &&
+        failureMode === AsyncFailureMode.OnFailureDestination
+          ? new destinations.SqsDestination(this.deadLetterQueue)
+          : undefined;
+
+      if (onFailure || retryAttempts !== undefined || maxEventAge) {
+        this.alias.configureAsyncInvoke({
+          onFailure,
+          retryAttempts,
+          maxEventAge,
+        });
+      }
+    }
+
+    // Scale the provisioned concurrency on the alias CodeDeploy shifts, so canaries keep working
+    if (props.autoScaling) {
+      this.scalableTarget = this.alias.addAutoScaling({
+        minCapacity:
+          props.autoScaling.minCapacity ?? props.provisionedConcurrency ?? 1,
+        maxCapacity: props.autoScaling.maxCapacity,
+      });
+
+      this.scalableTarget.scaleOnUtilization({
+        utilizationTarget: props.autoScaling.utilizationTarget ?? 0.7,
+      });
+
+      for (const { name, ...schedule } of props.autoScaling.schedules ?? []) {
+        this.scalableTarget.scaleOnSchedule(name, schedule);
+      }
+    }
+
+    // Attach the URL to the alias so direct callers follow the canary traffic shift
+    if (props.functionUrl) {
+      const authType =
+        props.functionUrl.authType ?? lambda.FunctionUrlAuthType.AWS_IAM;
+
+      if (
+        authType === lambda.FunctionUrlAuthType.NONE &&
+        props.stageName.toLowerCase().trim() === Stage.Prod
+      ) {
+        throw new Error(
+          `Function URL for ${id} must use AWS_IAM auth in the ${Stage.Prod} stage`,
+        );
+      }
+
+      this.functionUrl = this.alias.addFunctionUrl({
+        authType,
+        cors: props.functionUrl.cors,
+        invokeMode: props.functionUrl.invokeMode,
+      });
+
+      new cdk.CfnOutput(this, `${id}FunctionUrlOutput`, {
+        value: this.functionUrl.url,
+        description: `${props.stageName} function URL for ${id}`,
+      });
+    }
+
+    const errorMetric = new cloudwatch.Metric({
+      metricName: props.metricErrorName,
+      namespace: props.namespace,
+      statistic: cloudwatch.Stats.SUM,
+      dimensionsMap: {
+        service: props.serviceName,
+      },
+      // Monitor errors over 1-minute periods for quick detection
+      period: Duration.minutes(1),
+    });
+    const anomalyDetection = props.anomalyDetection;
+    const replaceThresholdAlarms = !!anomalyDetection?.replaceThresholdAlarms;
+    const anomalyAlarms: cloudwatch.Alarm[] = [];
+
+    // Configure CloudWatch alarm for error monitoring and automatic rollbacks
+    this.alarm = replaceThresholdAlarms
+      ? this.createAnomalyAlarm(
+          `${id}FailureAnomaly`,
+          `${props.namespace}/${props.metricErrorName} deployment errors`,
+          errorMetric,
+          anomalyDetection,
+        )
+      : new cloudwatch.Alarm(this, `${id}Failure`, {
+          alarmDescription: `${props.stageName} - ${props.namespace}/${props.metricErrorName} deployment errors = 10 for ${id}`,
+          actionsEnabled: props.alarmEnabled,
+          metric: errorMetric,
+          comparisonOperator:
+            cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          ...this.defaultAlarmConfig,
+          ...props.alarmConfiguration,
+        });
+
+    // Seasonal traffic needs a band that follows the expected error count
+    if (anomalyDetection && !replaceThresholdAlarms) {
+      anomalyAlarms.push(
+        this.createAnomalyAlarm(
+          `${id}FailureAnomaly`,
+          `${props.namespace}/${props.metricErrorName} deployment errors`,
+          errorMetric,
+          anomalyDetection,
+        ),
+      );
+    }
+
+    // Create an encrypted, SSL-enforced topic when none is shared across functions
+    this.snsTopic =
+      props.snsTopic ?? this.createAlarmTopic(id, props.stageName);
+
+    const lambdaAlarmConfig = {
+      ...this.defaultLambdaAlarmConfig,
+      // Default the p99 budget to 80% of the function timeout (3 seconds when unset)
+      durationThreshold: Duration.millis(
+        (this.lambda.timeout ?? Duration.seconds(3)).toMilliseconds() * 0.8,
+      ),
+      ...props.lambdaAlarmConfiguration,
+    };
+
+    // Alias-scoped alarms on the built-in AWS/Lambda metrics catch failures that
+    // never reach the custom error metric (init errors, crashes, throttles, timeouts)
+    const errorsAlarm = new cloudwatch.Alarm(this, `${id}Errors`, {
+      alarmDescription: `${props.stageName} - AWS/Lambda Errors >= ${lambdaAlarmConfig.errorsThreshold} for ${id}`,
+      actionsEnabled: props.alarmEnabled,
+      metric: this.alias.metricErrors({
+        statistic: cloudwatch.Stats.SUM,
+        period: Duration.minutes(1),
+      }),
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      threshold: lambdaAlarmConfig.errorsThreshold,
+      evaluationPeriods: lambdaAlarmConfig.evaluationPeriods,
+      treatMissingData: lambdaAlarmConfig.treatMissingData,
+    });
+
+    const throttlesAlarm = new cloudwatch.Alarm(this, `${id}Throttles`, {
+      alarmDescription: `${props.stageName} - AWS/Lambda Throttles >= ${lambdaAlarmConfig.throttlesThreshold} for ${id}`,
+      actionsEnabled: props.alarmEnabled,
+      metric: this.alias.metricThrottles({
+        statistic: cloudwatch.Stats.SUM,
+        period: Duration.minutes(1),
+      }),
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      threshold: lambdaAlarmConfig.throttlesThreshold,
+      evaluationPeriods: lambdaAlarmConfig.evaluationPeriods,
+      treatMissingData: lambdaAlarmConfig.treatMissingData,
+    });
+
+    const durationMetric = this.alias.metricDuration({
+      statistic: cloudwatch.Stats.p(99),
+      period: Duration.minutes(1),
+    });
+    const durationAnomalyAlarm = anomalyDetection?.duration
+      ? this.createAnomalyAlarm(
+          `${id}DurationAnomaly`,
+          'AWS/Lambda Duration p99',
+          durationMetric,
+          anomalyDetection,
+        )
+      : undefined;
+
+    const durationAlarm =
+      replaceThresholdAlarms && durationAnomalyAlarm
+        ? durationAnomalyAlarm
+        : new cloudwatch.Alarm(this, `${id}DurationP99`, {
+            alarmDescription: `${props.stageName} - AWS/Lambda Duration p99 >= ${lambdaAlarmConfig.durationThreshold.toMilliseconds()}ms for ${id}`,
+            actionsEnabled: props.alarmEnabled,
+            metric: durationMetric,
+            comparisonOperator:
+              cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+            threshold: lambdaAlarmConfig.durationThreshold.toMilliseconds(),
+            evaluationPeriods: lambdaAlarmConfig.evaluationPeriods,
+            treatMissingData: lambdaAlarmConfig.treatMissingData,
+          });
+
+    if (durationAnomalyAlarm && durationAnomalyAlarm !== durationAlarm) {
+      anomalyAlarms.push(durationAnomalyAlarm);
+    }
+
+    this.alarms.push(
+      this.alarm,
+      errorsAlarm,
+      throttlesAlarm,
+      durationAlarm,
+      ...anomalyAlarms,
+    );
+
+    // Failed async events landing in the queue indicate the new version is misbehaving
+    if (this.deadLetterQueue) {
+      const dlqAlarmThreshold = props.asyncInvocation?.alarmThreshold ?? 1;
+
+      this.alarms.push(
+        new cloudwatch.Alarm(this, `${id}DeadLetterQueueDepth`, {
+          alarmDescription: `${props.stageName} - failed async events >= ${dlqAlarmThreshold} for ${id}`,
+          actionsEnabled: props.alarmEnabled,
+          metric: this.deadLetterQueue.metricApproximateNumberOfMessagesVisible(
+            {
+              statistic: cloudwatch.Stats.MAXIMUM,
+              period: Duration.minutes(1),
+            },
+          ),
+          comparisonOperator:
+            cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          threshold: dlqAlarmThreshold,
+          evaluationPeriods: 1,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        }),
+      );
+    }
+
+    // Burn-rate alarms scale with traffic, unlike the fixed error count threshold
+    const sloObjectives = props.slo
+      ? this.getSloObjectives(id, props.slo, props)
+      : [];
+    for (const objective of sloObjectives) {
+      this.sloAlarms.push(
+        ...this.createBurnRateAlarms(
+          id,
+          objective,
+          props.slo?.burnRateWindows ?? this.defaultBurnRateWindows,
+          props.alarmEnabled,
+        ),
+      );
+    }
+
+    for (const alarm of [...this.alarms, ...this.sloAlarms]) {
+      // Connect alarm to SNS topic for notifications
+      alarm.addAlarmAction(new actions.SnsAction(this.snsTopic));
+      // Allow CloudFormation to delete alarm during stack teardown
+      alarm.applyRemovalPolicy(RemovalPolicy.DESTROY);
+    }
+
+    // Create optional lifecycle hooks that validate the new version during deployment
+    if (props.preTrafficHook) {
+      this.preTrafficHook = this.createTrafficHook(
+        `${id}PreTrafficHook`,
+        props.preTrafficHook,
+      );
+    }
+    if (props.postTrafficHook) {
+      this.postTrafficHook = this.createTrafficHook(
+        `${id}PostTrafficHook`,
+        props.postTrafficHook,
+      );
+    }
+
+    this.rollbackAlarms.push(...this.alarms, ...this.sloAlarms);
+    this.checkRollbackAlarmLimit(this.rollbackAlarms.length);
+
+    // Create CodeDeploy deployment group for progressive rollout management
+    this.deploymentGroup = new codeDeploy.LambdaDeploymentGroup(
+      this,
+      `${id}CanaryDeployment`,
+      {
+        alias: this.alias,
+        deploymentConfig: this.deploymentConfig,
+        // Any alarm will trigger automatic rollback if breached during deployment
+        alarms: [...this.rollbackAlarms],
+        application: this.application,
+        // The deployment group grants codedeploy:PutLifecycleEventHookExecutionStatus to each hook
+        preHook: this.preTrafficHook,
+        postHook: this.postTrafficHook,
+      },
+    );
+
+    // Optionally create CloudWatch dashboard widgets for monitoring
+    if (createWidget) {
+      const aliasMetricOptions: cloudwatch.MetricOptions = {
+        region: props.region,
+        period: cdk.Duration.minutes(1),
+      };
+
+      this.widgets.push(
+        // Header widget grouping this function's widgets on a shared dashboard
+        new cloudwatch.TextWidget({
+          markdown: `### ${id} (${props.stageName})`,
+          width: 24,
+          height: 1,
+        }),
+        // Success metric widget showing positive operations
+        new cloudwatch.SingleValueWidget({
+          title: props.metricSuccessNameTitle ?? `${id} - Success Operation`,
+          metrics: [
+            new cloudwatch.Metric({
+              namespace: props.namespace,
+              metricName: props.metricSuccessName ?? `${id}-SuccessOperation`,
+              label: props.metricSuccessName ?? `${id} - Success Operation`,
+              region: props.region,
+              dimensionsMap: {
+                service: props.serviceName,
+              },
+              statistic: cloudwatch.Stats.SUM,
+              period: cdk.Duration.minutes(1),
+            }),
+          ],
+        }),
+        // Error metric widget showing failures and issues
+        new cloudwatch.SingleValueWidget({
+          title: props.metricErrorNameTitle ?? `${id} - Error Operation`,
+          metrics: [
+            new cloudwatch.Metric({
+              namespace: props.namespace,
+              metricName: props.metricErrorName,
+              label: props.metricErrorName ?? `${id} - Error Operation`,
+              region: props.region,
+              dimensionsMap: {
+                service: props.serviceName,
+              },
+              statistic: cloudwatch.Stats.SUM,
+              period: cdk.Duration.minutes(1),
+            }),
+          ],
+        }),
+      );
+
+      // Failed async events widget showing the queue depth
+      if (this.deadLetterQueue) {
+        this.widgets.push(
+          new cloudwatch.SingleValueWidget({
+            title: `${id} - Failed Async Events`,
+            metrics: [
+              this.deadLetterQueue.metricApproximateNumberOfMessagesVisible({
+                label: `${id} - Failed Async Events`,
+                region: props.region,
+                statistic: cloudwatch.Stats.MAXIMUM,
+                period: cdk.Duration.minutes(1),
+              }),
+            ],
+          }),
+        );
+      }
+
+      // SLO compliance and remaining error budget over the dashboard time range
+      if (sloObjectives.length) {
+        this.widgets.push(
+          new cloudwatch.SingleValueWidget({
+            title: `${id} - SLO`,
+            width: 6 * sloObjectives.length,
+            setPeriodToTimeRange: true,
+            metrics: sloObjectives.flatMap((objective) => {
+              const bad = objective.metricBadPercent(Duration.minutes(1));
+              const key = objective.name.toLowerCase();
+
+              return [
+                new cloudwatch.MathExpression({
+                  expression: `100 - ${key}`,
+                  usingMetrics: { [key]: bad },
+                  label: `${objective.name} % (target ${objective.target}%)`,
+                  period: Duration.minutes(1),
+                }),
+                new cloudwatch.MathExpression({
+                  expression: `100 - 100 * ${key} / ${objective.budget}`,
+                  usingMetrics: { [key]: bad },
+                  label: `${objective.name} error budget remaining %`,
+                  period: Duration.minutes(1),
+                }),
+              ];
+            }),
+          }),
+        );
+      }
+
+      this.widgets.push(
+        // Alarm status widget showing the state of every rollback alarm, including those added later
+        new cloudwatch.AlarmStatusWidget({
+          title: `${id} - Alarms`,
+          alarms: this.rollbackAlarms,
+        }),
+        // Alias traffic and failures
+        new cloudwatch.GraphWidget({
+          title: `${id} - Invocations, Errors & Throttles`,
+          width: 12,
+          left: [
+            this.alias.metricInvocations({
+              ...aliasMetricOptions,
+              label: 'Invocations',
+              statistic: cloudwatch.Stats.SUM,
+            }),
+            this.alias.metricErrors({
+              ...aliasMetricOptions,
+              label: 'Errors',
+              statistic: cloudwatch.Stats.SUM,
+            }),
+            this.alias.metricThrottles({
+              ...aliasMetricOptions,
+              label: 'Throttles',
+              statistic: cloudwatch.Stats.SUM,
+            }),
+          ],
+        }),
+        // Alias latency percentiles
+        new cloudwatch.GraphWidget({
+          title: `${id} - Duration`,
+          width: 12,
+          left: [50, 90, 99].map((percentile) =>
+            this.alias.metricDuration({
+              ...aliasMetricOptions,
+              label: `p${percentile}`,
+              statistic: cloudwatch.Stats.p(percentile),
+            }),
+          ),
+        }),
+        // Alias concurrency
+        new cloudwatch.GraphWidget({
+          title: `${id} - Concurrent Executions`,
+          width: 12,
+          left: [
+            this.alias.metric('ConcurrentExecutions', {
+              ...aliasMetricOptions,
+              label: 'Concurrent Executions',
+              statistic: cloudwatch.Stats.MAXIMUM,
+            }),
+          ],
+        }),
+        // Alias invocations by the version serving them, which shows the traffic split during a
+        // deployment. CodeDeploy publishes no metric for the deployment state itself
+        new cloudwatch.GraphWidget({
+          title: `${id} - Traffic Split by Version`,
+          width: 12,
+          stacked: true,
+          left: [
+            new cloudwatch.MathExpression({
+              expression: `SEARCH('{AWS/Lambda,FunctionName,Resource,ExecutedVersion} MetricName="Invocations" FunctionName="${this.lambda.functionName}" Resource="${this.lambda.functionName}:${props.stageName}"', 'Sum', 60)`,
+              label: 'Version',
+              searchRegion: props.region,
+              period: cdk.Duration.minutes(1),
+            }),
+          ],
+        }),
+      );
+    }
+
+    // Invoke the alias on a schedule, so scheduled jobs follow the progressive rollout
+    for (const schedule of props.schedules ?? []) {
+      this.addSchedule(schedule);
+    }
+  }
+
+  /**
+   * Queue receiving events that EventBridge rules and schedules failed to deliver
+   * (when `schedules` are configured or {@link addEventRule} has been called).
+   */
+  public get targetDeadLetterQueue(): sqs.Queue | undefined {
+    return this._targetDeadLetterQueue;
+  }
+
+  /**
+   * Adds an EventBridge rule that invokes the stage alias.
+   *
+   * The rule is named `<stage>-<id>-<name>-rule` using `generateResourceName`. Events that
+   * still fail after retries are sent to {@link targetDeadLetterQueue}.
+   *
+   * @param name - Name of the rule, used in the construct id and resource name
+   * @param options - Rule properties, retry policy and payload
+   * @returns The EventBridge rule
+   *
+   * @example
+   * ```typescript
+   * progressiveLambda.addEventRule('order-placed', {
+   *   eventBus,
+   *   eventPattern: { source: ['orders'], detailType: ['OrderPlaced'] },
+   *   retryAttempts: 3,
+   * });
+   * ```
+   */
+  public addEventRule(
+    name: string,
+    options: ProgressiveLambdaEventRule,
+  ): events.Rule {
+    const { input, retryAttempts = 2, maxEventAge, ...ruleProps } = options;
+
+    const rule = new events.Rule(this, `${this.node.id}${name}Rule`, {
+      ...ruleProps,
+      ruleName: generateResourceName({
+        stage: this.stageName,
+        service: this.node.id,
+        resource: name,
+        suffix: 'rule',
+      }),
+    });
+
+    rule.addTarget(
+      new eventTargets.LambdaFunction(this.alias, {
+        event: input ? events.RuleTargetInput.fromObject(input) : undefined,
+        deadLetterQueue: this.getTargetDeadLetterQueue(),
+        retryAttempts,
+        maxEventAge: maxEventAge ?? Duration.hours(1),
+      }),
+    );
+
+    return rule;
+  }
+
+  /**
+   * Adds an SQS queue as an event source of the stage alias.
+   *
+   * Binding to the alias rather than the unqualified function means messages follow the
+   * CodeDeploy traffic shift. Partial batch failure reporting is enabled, so the handler
+   * should return `batchItemFailures`. An alarm on the age of the oldest message takes
+   * part in deployment rollback.
+   *
+   * @param queue - The queue to consume
+   * @param options - Event source options and the message age alarm threshold
+   * @returns The event source bound to the alias
+   *
+   * @example
+   * ```typescript
+   * progressiveLambda.addSqsEventSource(ordersQueue, {
+   *   batchSize: 10,
+   *   maxMessageAge: cdk.Duration.minutes(2),
+   * });
+   * ```
+   */
+  public addSqsEventSource(
+    queue: sqs.IQueue,
+    options: ProgressiveLambdaSqsEventSource = {},
+  ): eventSources.SqsEventSource {
+    const { maxMessageAge = Duration.minutes(5), ...sourceProps } = options;
+
+    const eventSource = new eventSources.SqsEventSource(queue, {
+      reportBatchItemFailures: true,
+      ...sourceProps,
+    });
+    this.alias.addEventSource(eventSource);
+
+    // Queues in different scopes can share a construct id, so the alarm is named by the queue's path
+    this.addRollbackAlarm(
+      new cloudwatch.Alarm(
+        this,
+        `${this.node.id}${cdk.Names.nodeUniqueId(queue.node)}MessageAge`,
+        {
+          alarmDescription: `${this.stageName} - ${queue.node.id} oldest message age >= ${maxMessageAge.toSeconds()}s for ${this.node.id}`,
+          actionsEnabled: this.alarmEnabled,
+          metric: queue.metricApproximateAgeOfOldestMessage({
+            statistic: cloudwatch.Stats.MAXIMUM,
+            period: Duration.minutes(1),
+          }),
+          comparisonOperator:
+            cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+          threshold: maxMessageAge.toSeconds(),
+          evaluationPeriods: 1,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        },
+      ),
+    );
+
+    return eventSource;
+  }
+
+  /**
+   * Adds a Kinesis stream as an event source of the stage alias.
+   *
+   * Partial batch failure reporting is enabled, and an alarm on the alias iterator age
+   * takes part in deployment rollback.
+   *
+   * @param stream - The stream to consume
+   * @param options - Event source options and the iterator age alarm threshold
+   * @returns The event source bound to the alias
+   */
+  public addKinesisEventSource(
+    stream: kinesis.IStream,
+    options: ProgressiveLambdaKinesisEventSource,
+  ): eventSources.KinesisEventSource {
+    const { maxIteratorAge = Duration.minutes(1), ...sourceProps } = options;
+
+    const eventSource = new eventSources.KinesisEventSource(stream, {
+      reportBatchItemFailures: true,
+      ...sourceProps,
+    });
+    this.alias.addEventSource(eventSource);
+    this.addIteratorAgeAlarm(maxIteratorAge);
+
+    return eventSource;
+  }
+
+  /**
+   * Adds a DynamoDB stream as an event source of the stage alias.
+   *
+   * Partial batch failure reporting is enabled, and an alarm on the alias iterator age
+   * takes part in deployment rollback. The table must have a stream enabled.
+   *
+   * @param table - The table whose stream to consume
+   * @param options - Event source options and the iterator age alarm threshold
+   * @returns The event source bound to the alias
+   */
+  public addDynamoEventSource(
+    table: dynamodb.ITable,
+    options: ProgressiveLambdaDynamoEventSource,
+  ): eventSources.DynamoEventSource {
+    const { maxIteratorAge = Duration.minutes(1), ...sourceProps } = options;
+
+    const eventSource = new eventSources.DynamoEventSource(table, {
+      reportBatchItemFailures: true,
+      ...sourceProps,
+    });
+    this.alias.addEventSource(eventSource);
+    this.addIteratorAgeAlarm(maxIteratorAge);
+
+    return eventSource;
+  }
+
+  /**
+   * Creates an EventBridge rule or Scheduler schedule that invokes the stage alias.
+   *
+   * @param schedule - The schedule configuration
+   */
+  private addSchedule({
+    name,
+    schedule,
+    description,
+    input,
+    retryAttempts = 2,
+    maxEventAge = Duration.hours(1),
+  }: ProgressiveLambdaSchedule) {
+    if (!(schedule instanceof scheduler.ScheduleExpression)) {
+      this.addEventRule(name, {
+        schedule,
+        description,
+        input,
+        retryAttempts,
+        maxEventAge,
+      });
+      return;
+    }
+
+    new scheduler.Schedule(this, `${this.node.id}${name}Schedule`, {
+      scheduleName: generateResourceName({
+        stage: this.stageName,
+        service: this.node.id,
+        resource: name,
+        suffix: 'schedule',
+      }),
+      description,
+      schedule,
+      target: new schedulerTargets.LambdaInvoke(this.alias, {
+        input: input
+          ? scheduler.ScheduleTargetInput.fromObject(input)
+          : undefined,
+        deadLetterQueue: this.getTargetDeadLetterQueue(),
+        retryAttempts,
+        maxEventAge,
+      }),
+    });
+  }
+
+  /**
+   * Returns the dead-letter queue shared by rule and schedule targets, creating it and its
+   * rollback alarm on first use.
+   *
+   * @returns An SSL-enforced queue encrypted with SQS managed keys
+   */
+  private getTargetDeadLetterQueue(): sqs.Queue {
+    if (this._targetDeadLetterQueue) {
+      return this._targetDeadLetterQueue;
+    }
+
+    const id = this.node.id;
+
+    // EventBridge cannot use the AWS managed SQS KMS key, so use SQS managed encryption
+    const queue = new sqs.Queue(this, `${id}TargetDeadLetterQueue`, {
+      queueName: generateResourceName({
+        stage: this.stageName,
+        service: id,
+        resource: 'targets-dlq',
+      }),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+      retentionPeriod: Duration.days(14),
+    });
+
+    NagSuppressions.addResourceSuppressions(queue, [
+      {
+        id: 'AwsSolutions-SQS3',
+        reason:
+          'This queue is the dead-letter queue for EventBridge rule and schedule targets.',
+      },
+    ]);
+
+    // Undeliverable scheduled or event-driven invocations indicate the new version is misbehaving
+    this.addRollbackAlarm(
+      new cloudwatch.Alarm(this, `${id}TargetDeadLetterQueueDepth`, {
+        alarmDescription: `${this.stageName} - undelivered events >= 1 for ${id}`,
+        actionsEnabled: this.alarmEnabled,
+        metric: queue.metricApproximateNumberOfMessagesVisible({
+          statistic: cloudwatch.Stats.MAXIMUM,
+          period: Duration.minutes(1),
+        }),
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        threshold: 1,
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    );
+
+    this._targetDeadLetterQueue = queue;
+
+    return queue;
+  }
+
+  /**
+   * Registers an alarm created after construction so that it notifies the alarm topic
+   * and rolls back deployments.
+   *
+   * @param alarm - The alarm to register
+   *
+   * @throws {Error} When the deployment group already has the 10 alarms CodeDeploy accepts
+   */
+  protected addRollbackAlarm(alarm: cloudwatch.Alarm): void {
+    this.checkRollbackAlarmLimit(this.rollbackAlarms.length + 1);
+
+    alarm.addAlarmAction(new actions.SnsAction(this.snsTopic));
+    alarm.applyRemovalPolicy(RemovalPolicy.DESTROY);
+
+    this.alarms.push(alarm);
+    this.rollbackAlarms.push(alarm);
+    this.deploymentGroup.addAlarm(alarm);
+  }
+
+  /**
+   * Fails synth when the deployment group would have more rollback alarms than CodeDeploy
+   * accepts, rather than letting the deployment fail.
+   *
+   * @param count - The number of rollback alarms the deployment group would have
+   *
+   * @throws {Error} When the count exceeds the CodeDeploy limit
+   */
+  private checkRollbackAlarmLimit(count: number): void {
+    if (count > this.maxRollbackAlarms) {
+      throw new Error(
+        `${this.node.id} needs ${count} rollback alarms, but a CodeDeploy deployment group accepts at most ${this.maxRollbackAlarms}; remove SLO objectives, burn-rate windows, anomaly detection or alarmed sources`,
+      );
+    }
+  }
+
+  /**
+   * Adds the rollback alarm on the iterator age of the stage alias, or lowers its threshold.
+   *
+   * Every stream source reports through the same alias metric, so a single
+   * alarm at the smallest iterator age covers them all.
+   *
+   * @param maxIteratorAge - Iterator age that triggers the alarm
+   */
+  private addIteratorAgeAlarm(maxIteratorAge: Duration) {
+    const existing = this._maxIteratorAgeMs;
+    this._maxIteratorAgeMs = Math.min(
+      existing ?? Number.POSITIVE_INFINITY,
+      maxIteratorAge.toMilliseconds(),
+    );
+    if (existing !== undefined) return;
+
+    this.addRollbackAlarm(
+      new cloudwatch.Alarm(this, `${this.node.id}IteratorAge`, {
+        alarmDescription: cdk.Lazy.string({
+          produce: () =>
+            `${this.stageName} - iterator age >= ${this._maxIteratorAgeMs}ms for ${this.node.id}`,
+        }),
+        actionsEnabled: this.alarmEnabled,
+        metric: this.alias.metric('IteratorAge', {
+          statistic: cloudwatch.Stats.MAXIMUM,
+          period: Duration.minutes(1),
+        }),
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        threshold: cdk.Lazy.number({ produce: () => this._maxIteratorAgeMs }),
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    );
+  }
+
+  /**
+   * Creates an alarm that fires when a metric rises above its anomaly detection band.
+   *
+   * @param id - The construct identifier of the alarm
+   * @param description - What the metric measures, used in the alarm description
+   * @param metric - The metric to build the band on
+   * @param anomalyDetection - The band width and evaluation settings
+   * @returns The anomaly detection alarm
+   */
+  private createAnomalyAlarm(
+    id: string,
+    description: string,
+    metric: cloudwatch.Metric,
+    anomalyDetection: ProgressiveLambdaAnomalyDetection,
+  ): cloudwatch.Alarm {
+    const bandWidth = anomalyDetection.bandWidth ?? 2;
+
+    const alarm = new cloudwatch.Alarm(this, id, {
+      alarmDescription: `${this.stageName} - ${description} above the ${bandWidth} standard deviation anomaly band for ${this.node.id}`,
+      actionsEnabled: this.alarmEnabled,
+      metric,
+      // Replaced by the band below
+      threshold: 0,
+      evaluationPeriods: anomalyDetection.evaluationPeriods ?? 1,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+
+    // Not every supported CDK version renders anomaly detection alarms, so the metric, the
+    // ANOMALY_DETECTION_BAND expression and the threshold metric are set on the resource
+    const cfnAlarm = alarm.node.defaultChild as cloudwatch.CfnAlarm;
+    cfnAlarm.metricName = undefined;
+    cfnAlarm.namespace = undefined;
+    cfnAlarm.dimensions = undefined;
+    cfnAlarm.statistic = undefined;
+    cfnAlarm.extendedStatistic = undefined;
+    cfnAlarm.period = undefined;
+    cfnAlarm.unit = undefined;
+    cfnAlarm.threshold = undefined;
+    // Fewer errors or faster invocations than expected are not a reason to roll back
+    cfnAlarm.comparisonOperator =
+      cloudwatch.ComparisonOperator.GREATER_THAN_UPPER_THRESHOLD;
+    cfnAlarm.thresholdMetricId = 'band';
+    cfnAlarm.metrics = [
+      {
+        id: 'm',
+        returnData: true,
+        metricStat: {
+          metric: {
+            metricName: metric.metricName,
+            namespace: metric.namespace,
+            dimensions: Object.entries(metric.dimensions ?? {}).map(
+              ([name, value]) => ({ name, value }),
+            ),
+          },
+          period: metric.period.toSeconds(),
+          stat: metric.statistic,
+          unit: metric.unit,
+        },
+      },
+      {
+        id: 'band',
+        expression: `ANOMALY_DETECTION_BAND(m, ${bandWidth})`,
+        label: 'Anomaly Detection Band',
+        returnData: true,
+      },
+    ];
+
+    return alarm;
+  }
+
+  /**
+   * Resolves the configured service level objectives to their bad event metrics.
+   *
+   * @param id - The construct identifier used in default metric names
+   * @param slo - The service level objectives
+   * @param props - The construct options holding the success and error metric names
+   * @returns The objectives to create burn-rate alarms and widgets for
+   */
+  private getSloObjectives(
+    id: string,
+    slo: ProgressiveLambdaSlo,
+    props: ProgressiveFunctionOptions,
+  ): SloObjective[] {
+    const objectives: SloObjective[] = [];
+
+    const operationMetric = (metricName: string, period: Duration) =>
+      new cloudwatch.Metric({
+        metricName,
+        namespace: props.namespace,
+        statistic: cloudwatch.Stats.SUM,
+        dimensionsMap: {
+          service: props.serviceName,
+        },
+        region: props.region,
+        period,
+      });
+
+    const getBudget = (name: string, target: number) => {
+      if (!(target > 0 && target < 100)) {
+        throw new Error(
+          `${name} target for ${id} must be between 0 and 100, received ${target}`,
+        );
+      }
+      // Round away floating point noise, e.g. 100 - 99.9
+      return Number((100 - target).toFixed(6));
+    };
+
+    if (slo.availabilityTarget !== undefined) {
+      objectives.push({
+        name: 'Availability',
+        target: slo.availabilityTarget,
+        budget: getBudget('Availability', slo.availabilityTarget),
+        metricBadPercent: (period) =>
+          new cloudwatch.MathExpression({
+            expression:
+              '100 * FILL(errors, 0) / (FILL(errors, 0) + FILL(successes, 0))',
+            usingMetrics: {
+              errors: operationMetric(props.metricErrorName, period),
+              successes: operationMetric(
+                props.metricSuccessName ?? `${id}-SuccessOperation`,
+                period,
+              ),
+            },
+            label: 'Failed operations %',
+            period,
+          }),
+      });
+    }
+
+    if (slo.latencyTarget) {
+      const { threshold, target } = slo.latencyTarget;
+
+      objectives.push({
+        name: 'Latency',
+        target,
+        budget: getBudget('Latency', target),
+        // Percentile rank gives the percentage of invocations at or under the threshold
+        metricBadPercent: (period) =>
+          new cloudwatch.MathExpression({
+            expression: '100 - FILL(withinThreshold, 100)',
+            usingMetrics: {
+              withinThreshold: this.alias.metricDuration({
+                statistic: cloudwatch.Stats.percentileRank(
+                  threshold.toMilliseconds(),
+                ),
+                region: props.region,
+                period,
+              }),
+            },
+            label: `Invocations over ${threshold.toHumanString()} %`,
+            period,
+          }),
+      });
+    }
+
+    if (!objectives.length) {
+      throw new Error(
+        `SLO for ${id} must set an availabilityTarget or a latencyTarget`,
+      );
+    }
+
+    return objectives;
+  }
+
+  /**
+   * Creates a composite burn-rate alarm for each window pair of an objective.
+   *
+   * @param id - The construct identifier used for alarm ids
+   * @param objective - The objective to alarm on
+   * @param windows - The window pairs and burn rates
+   * @param alarmEnabled - Whether the composite alarms trigger actions
+   * @returns Composite alarms that fire when both windows exceed the burn rate
+   */
+  private createBurnRateAlarms(
+    id: string,
+    objective: SloObjective,
+    windows: ProgressiveLambdaBurnRateWindow[],
+    alarmEnabled: boolean,
+  ): cloudwatch.CompositeAlarm[] {
+    return windows.map(({ name, longWindow, shortWindow, burnRate }) => {
+      const alarmId = `${id}${objective.name}${name}Burn`;
+
+      const [longAlarm, shortAlarm] = [
+        { suffix: 'Long', period: longWindow },
+        { suffix: 'Short', period: shortWindow },
+      ].map(({ suffix, period }) => {
+        const alarm = new cloudwatch.Alarm(this, `${alarmId}${suffix}`, {
+          alarmDescription: `${this.stageName} - ${objective.name} burn rate > ${burnRate} over ${period.toHumanString()} for ${id}`,
+          // Only the composite alarm notifies and rolls back
+          actionsEnabled: false,
+          metric: new cloudwatch.MathExpression({
+            expression: `${objective.name.toLowerCase()} / ${objective.budget}`,
+            usingMetrics: {
+              [objective.name.toLowerCase()]:
+                objective.metricBadPercent(period),
+            },
+            label: `${objective.name} burn rate`,
+            period,
+          }),
+          comparisonOperator:
+            cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+          threshold: burnRate,
+          evaluationPeriods: 1,
+          treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        });
+        alarm.applyRemovalPolicy(RemovalPolicy.DESTROY);
+        return alarm;
+      });
+
+      return new cloudwatch.CompositeAlarm(this, alarmId, {
+        alarmDescription: `${this.stageName} - ${objective.name} SLO ${objective.target}% burning at ${burnRate}x over ${longWindow.toHumanString()} and ${shortWindow.toHumanString()} for ${id}`,
+        actionsEnabled: alarmEnabled,
+        alarmRule: cloudwatch.AlarmRule.allOf(longAlarm, shortAlarm),
+      });
+    });
+  }
+
+  /**
+   * Creates the alarm notification topic used when no topic is supplied.
+   *
+   * @param id - The construct identifier used for naming
+   * @param stageName - The deployment stage used for naming and key retention
+   * @returns An SSL-enforced topic encrypted with a customer managed key
+   */
+  private createAlarmTopic(id: string, stageName: string): sns.Topic {
+    const masterKey = new kms.Key(this, `${id}AlarmTopicKey`, {
+      description: `${stageName} ${id} alarm notification topic key`,
+      enableKeyRotation: true,
+      removalPolicy: getRemovalPolicyFromStage(stageName),
+    });
+
+    // CloudWatch must be able to use the key to publish alarm state changes
+    masterKey.grant(
+      new iam.ServicePrincipal('cloudwatch.amazonaws.com'),
+      'kms:Decrypt',
+      'kms:GenerateDataKey*',
+    );
+
+    return new sns.Topic(this, `${id}AlarmTopic`, {
+      topicName: generateResourceName({
+        stage: stageName,
+        service: id,
+        resource: 'alarms-topic',
+      }),
+      masterKey,
+      enforceSSL: true,
+    });
+  }
+
+  /**
+   * Resolves a lifecycle hook to a function that may invoke the new version.
+   *
+   * @param id - The construct identifier for a bundled hook function
+   * @param hook - An existing function or the props for a bundled hook
+   * @returns The hook function to register on the deployment group
+   */
+  private createTrafficHook(
+    id: string,
+    hook: ProgressiveLambdaHook,
+  ): lambda.IFunction {
+    const hookFunction = Construct.isConstruct(hook)
+      ? hook
+      : new nodeLambda.NodejsFunction(this, id, {
+          runtime: lambda.Runtime.NODEJS_24_X,
+          tracing: lambda.Tracing.ACTIVE,
+          // Allow smoke tests enough time to exercise the new version
+          timeout: cdk.Duration.minutes(5),
+          ...hook,
+          environment: {
+            TARGET_FUNCTION_ARN: this.lambda.currentVersion.functionArn,
+            ...hook.environment,
+          },
+        });
+
+    // The hook needs to call the version that is about to receive traffic
+    this.lambda.currentVersion.grantInvoke(hookFunction);
+
+    return hookFunction;
+  }
+}
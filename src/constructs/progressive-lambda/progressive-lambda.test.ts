@@ -1,8 +1,13 @@
 import * as cdk from 'aws-cdk-lib';
 import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
 import * as sns from 'aws-cdk-lib/aws-sns';
 import { AwsSolutionsChecks, NagSuppressions } from 'cdk-nag';
+import { Construct } from 'constructs';
+import { Stage } from '../../types';
+import { IdempotencyTable } from '../idempotency-table';
+import { AsyncFailureMode } from '../progressive-function';
 import {
   ProgressiveLambda,
   type ProgressiveLambdaProps,
@@ -80,7 +85,7 @@ describe('ProgressiveLambda', () => {
         },
       );
 
-      expect(progressiveLambdaWithWidgets.widgets).toHaveLength(3);
+      expect(progressiveLambdaWithWidgets.widgets).toHaveLength(8);
     });
 
     it('should not create widgets when createWidget is false or undefined', () => {
@@ -139,7 +144,7 @@ describe('ProgressiveLambda', () => {
 
       template.resourceCountIs('AWS::Lambda::Function', 1);
       template.resourceCountIs('AWS::Lambda::Alias', 1);
-      template.resourceCountIs('AWS::CloudWatch::Alarm', 1);
+      template.resourceCountIs('AWS::CloudWatch::Alarm', 4);
       template.resourceCountIs('AWS::CodeDeploy::DeploymentGroup', 1);
     });
 
@@ -248,6 +253,62 @@ describe('ProgressiveLambda', () => {
     });
   });
 
+  describe('CDK Nag compliance with created resources', () => {
+    it('should pass cdk-nag checks without SNS or SQS suppressions', () => {
+      const nagApp = new cdk.App();
+      const nagStack = new cdk.Stack(nagApp, 'TestStack');
+
+      new ProgressiveLambda(nagStack, 'NagProgressiveLambda', {
+        ...defaultConfig,
+        application: undefined,
+        snsTopic: undefined,
+        asyncInvocation: {},
+      });
+
+      NagSuppressions.addResourceSuppressionsByPath(
+        nagStack,
+        [
+          '/TestStack/NagProgressiveLambda/NagProgressiveLambda/ServiceRole/Resource',
+          '/TestStack/NagProgressiveLambda/NagProgressiveLambdaCanaryDeployment/ServiceRole/Resource',
+        ],
+        [
+          {
+            id: 'AwsSolutions-IAM4',
+            reason:
+              'Using AWS managed policies for standard Lambda and CodeDeploy execution roles',
+          },
+        ],
+      );
+      NagSuppressions.addResourceSuppressionsByPath(
+        nagStack,
+        [
+          '/TestStack/NagProgressiveLambda/NagProgressiveLambda/ServiceRole/DefaultPolicy/Resource',
+        ],
+        [
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'X-Ray tracing requires wildcard permissions for trace segments',
+            appliesTo: ['Resource::*'],
+          },
+        ],
+      );
+
+      cdk.Aspects.of(nagApp).add(new AwsSolutionsChecks({ verbose: true }));
+
+      const errors = Annotations.fromStack(nagStack).findError(
+        '*',
+        Match.stringLikeRegexp('AwsSolutions-.*'),
+      );
+
+      if (errors.length) {
+        console.error('CDK Nag Errors:', errors);
+      }
+
+      expect(errors).toHaveLength(0);
+    });
+  });
+
   describe('Widget functionality', () => {
     it('should create success metric widget when createWidget is true', () => {
       const progressiveLambdaWithWidgets = new ProgressiveLambda(
@@ -260,13 +321,58 @@ describe('ProgressiveLambda', () => {
       );
 
       const widgets = progressiveLambdaWithWidgets.widgets;
-      expect(widgets).toHaveLength(3);
+      expect(widgets).toHaveLength(8);
 
       // Verify widget types exist (we can't easily test widget content without more complex setup)
-      const [successWidget, errorWidget, alarmWidget] = widgets;
+      const [headerWidget, successWidget, errorWidget, alarmWidget] = widgets;
+      expect(headerWidget).toBeInstanceOf(cloudwatch.TextWidget); // Header widget
       expect(successWidget).toBeDefined(); // Success metric widget
       expect(errorWidget).toBeDefined(); // Error metric widget
-      expect(alarmWidget).toBeDefined(); // Alarm status widget
+      expect(alarmWidget).toBeInstanceOf(cloudwatch.AlarmStatusWidget); // Alarm status widget
+    });
+
+    it('should group widgets under a header named after the construct', () => {
+      const lambdaWithWidgets = new ProgressiveLambda(stack, 'HeaderLambda', {
+        ...defaultConfig,
+        createWidget: true,
+      });
+
+      const [headerWidget] = lambdaWithWidgets.widgets;
+      const [rendered] = stack.resolve(headerWidget.toJson());
+      expect(rendered.type).toBe('text');
+      expect(rendered.width).toBe(24);
+      expect(rendered.properties.markdown).toBe('### HeaderLambda (dev)');
+    });
+
+    it('should create graph widgets for alias invocations, duration, concurrency and the traffic split', () => {
+      const lambdaWithWidgets = new ProgressiveLambda(stack, 'GraphLambda', {
+        ...defaultConfig,
+        createWidget: true,
+      });
+
+      const graphs = lambdaWithWidgets.widgets
+        .filter((widget) => widget instanceof cloudwatch.GraphWidget)
+        .map((widget) => stack.resolve(widget.toJson())[0].properties);
+
+      expect(graphs.map((graph) => graph.title)).toEqual([
+        'GraphLambda - Invocations, Errors & Throttles',
+        'GraphLambda - Duration',
+        'GraphLambda - Concurrent Executions',
+        'GraphLambda - Traffic Split by Version',
+      ]);
+
+      const [traffic, duration, concurrency, split] = graphs;
+      expect(JSON.stringify(traffic.metrics)).toContain('Invocations');
+      expect(JSON.stringify(traffic.metrics)).toContain('Errors');
+      expect(JSON.stringify(traffic.metrics)).toContain('Throttles');
+      expect(JSON.stringify(duration.metrics)).toContain('p50');
+      expect(JSON.stringify(duration.metrics)).toContain('p90');
+      expect(JSON.stringify(duration.metrics)).toContain('p99');
+      expect(JSON.stringify(concurrency.metrics)).toContain(
+        'ConcurrentExecutions',
+      );
+      expect(JSON.stringify(split.metrics)).toContain('ExecutedVersion');
+      expect(split.stacked).toBe(true);
     });
 
     it('should handle different deployment configurations', () => {
@@ -417,123 +523,1959 @@ describe('ProgressiveLambda', () => {
     });
   });
 
-  describe('Default metric names', () => {
-    it('should use default metric success name when not provided', () => {
-      const defaultMetricLambda = new ProgressiveLambda(
+  describe('Optional application and SNS topic', () => {
+    let minimalStack: cdk.Stack;
+    let minimalLambda: ProgressiveLambda;
+
+    beforeEach(() => {
+      minimalStack = new cdk.Stack();
+      minimalLambda = new ProgressiveLambda(minimalStack, 'Minimal', {
+        ...defaultConfig,
+        application: undefined,
+        snsTopic: undefined,
+      });
+    });
+
+    it('should reuse the application and topic when provided', () => {
+      expect(progressiveLambda.application).toBe(mockApplication);
+      expect(progressiveLambda.snsTopic).toBe(mockSnsTopic);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::CodeDeploy::Application', 1);
+      template.resourceCountIs('AWS::SNS::Topic', 1);
+      template.resourceCountIs('AWS::KMS::Key', 0);
+    });
+
+    it('should create a stage-named application when omitted', () => {
+      const template = Template.fromStack(minimalStack);
+
+      template.hasResourceProperties('AWS::CodeDeploy::Application', {
+        ApplicationName: 'dev-minimal-application',
+        ComputePlatform: 'Lambda',
+      });
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        ApplicationName: { Ref: Match.stringLikeRegexp('MinimalApplication') },
+      });
+    });
+
+    it('should create an encrypted, SSL-enforced topic when omitted', () => {
+      const template = Template.fromStack(minimalStack);
+
+      template.hasResourceProperties('AWS::SNS::Topic', {
+        TopicName: 'dev-minimal-alarms-topic',
+        KmsMasterKeyId: Match.anyValue(),
+      });
+      template.hasResourceProperties('AWS::SNS::TopicPolicy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Effect: 'Deny',
+              Condition: { Bool: { 'aws:SecureTransport': 'false' } },
+            }),
+          ]),
+        },
+      });
+      template.hasResourceProperties('AWS::KMS::Key', {
+        EnableKeyRotation: true,
+        KeyPolicy: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Principal: { Service: 'cloudwatch.amazonaws.com' },
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('should notify the created topic from every alarm', () => {
+      const template = Template.fromStack(minimalStack);
+      const topicLogicalId = Object.keys(
+        template.findResources('AWS::SNS::Topic'),
+      )[0];
+
+      expect(minimalLambda.alarms).toHaveLength(4);
+      const alarms = template.findResources('AWS::CloudWatch::Alarm');
+      for (const alarm of Object.values(alarms)) {
+        expect(alarm.Properties.AlarmActions).toEqual([
+          { Ref: topicLogicalId },
+        ]);
+      }
+    });
+
+    it('should accept an imported topic', () => {
+      const importedTopic = sns.Topic.fromTopicArn(
         stack,
-        'DefaultMetricLambda',
+        'ImportedTopic',
+        'arn:aws:sns:us-east-1:123456789012:imported-topic',
+      );
+
+      const importedTopicLambda = new ProgressiveLambda(
+        stack,
+        'ImportedTopicLambda',
         {
           ...defaultConfig,
-          metricSuccessName: undefined,
-          metricSuccessNameTitle: undefined,
-          metricErrorNameTitle: undefined,
+          snsTopic: importedTopic,
         },
       );
 
-      expect(defaultMetricLambda).toBeDefined();
+      expect(importedTopicLambda.snsTopic).toBe(importedTopic);
 
-      // Create widgets to test default metric names
-      const lambdaWithWidgets = new ProgressiveLambda(
-        stack,
-        'DefaultMetricWidgetLambda',
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmActions: ['arn:aws:sns:us-east-1:123456789012:imported-topic'],
+      });
+    });
+  });
+
+  describe('Provisioned concurrency and auto-scaling', () => {
+    it('should not configure provisioned concurrency by default', () => {
+      expect(progressiveLambda.scalableTarget).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Alias', {
+        ProvisionedConcurrencyConfig: Match.absent(),
+      });
+      template.resourceCountIs(
+        'AWS::ApplicationAutoScaling::ScalableTarget',
+        0,
+      );
+    });
+
+    it('should configure provisioned concurrency on the stage alias', () => {
+      new ProgressiveLambda(stack, 'ProvisionedLambda', {
+        ...defaultConfig,
+        provisionedConcurrency: 5,
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Alias', {
+        Name: 'dev',
+        ProvisionedConcurrencyConfig: {
+          ProvisionedConcurrentExecutions: 5,
+        },
+      });
+    });
+
+    it('should scale the alias on utilisation and schedules', () => {
+      const scaledLambda = new ProgressiveLambda(stack, 'ScaledLambda', {
+        ...defaultConfig,
+        provisionedConcurrency: 5,
+        autoScaling: {
+          maxCapacity: 50,
+          schedules: [
+            {
+              name: 'BusinessHours',
+              schedule: cdk.aws_applicationautoscaling.Schedule.cron({
+                hour: '8',
+                minute: '0',
+              }),
+              timeZone: cdk.TimeZone.EUROPE_LONDON,
+              minCapacity: 20,
+            },
+          ],
+        },
+      });
+
+      expect(scaledLambda.scalableTarget).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties(
+        'AWS::ApplicationAutoScaling::ScalableTarget',
         {
-          ...defaultConfig,
-          createWidget: true,
-          metricSuccessName: undefined,
-          metricSuccessNameTitle: undefined,
-          metricErrorNameTitle: undefined,
+          MinCapacity: 5,
+          MaxCapacity: 50,
+          ScalableDimension: 'lambda:function:ProvisionedConcurrency',
+          // Scaling targets the stage alias rather than $LATEST
+          ResourceId: {
+            'Fn::Join': ['', Match.arrayWith(['function:', ':dev'])],
+          },
+          ScheduledActions: [
+            {
+              ScheduledActionName: 'BusinessHours',
+              Schedule: 'cron(0 8 * * ? *)',
+              Timezone: 'Europe/London',
+              ScalableTargetAction: { MinCapacity: 20 },
+            },
+          ],
         },
       );
 
-      expect(lambdaWithWidgets.widgets).toHaveLength(3);
+      template.hasResourceProperties(
+        'AWS::ApplicationAutoScaling::ScalingPolicy',
+        {
+          PolicyType: 'TargetTrackingScaling',
+          TargetTrackingScalingPolicyConfiguration: {
+            TargetValue: 0.7,
+            PredefinedMetricSpecification: {
+              PredefinedMetricType: 'LambdaProvisionedConcurrencyUtilization',
+            },
+          },
+        },
+      );
     });
-  });
 
-  describe('Edge cases and validation', () => {
-    it('should handle zero threshold in alarm configuration', () => {
-      new ProgressiveLambda(stack, 'ZeroThresholdLambda', {
+    it('should apply custom capacity and utilisation target', () => {
+      new ProgressiveLambda(stack, 'CustomScaledLambda', {
         ...defaultConfig,
-        alarmConfiguration: {
-          threshold: 0,
+        autoScaling: {
+          minCapacity: 2,
+          maxCapacity: 10,
+          utilizationTarget: 0.5,
         },
       });
 
       const template = Template.fromStack(stack);
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        Threshold: 0,
+      template.hasResourceProperties(
+        'AWS::ApplicationAutoScaling::ScalableTarget',
+        {
+          MinCapacity: 2,
+          MaxCapacity: 10,
+        },
+      );
+      template.hasResourceProperties(
+        'AWS::ApplicationAutoScaling::ScalingPolicy',
+        {
+          TargetTrackingScalingPolicyConfiguration: {
+            TargetValue: 0.5,
+          },
+        },
+      );
+    });
+  });
+
+  describe('Async invocation failure handling', () => {
+    it('should not create a failure queue by default', () => {
+      expect(progressiveLambda.deadLetterQueue).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::SQS::Queue', 0);
+      template.resourceCountIs('AWS::Lambda::EventInvokeConfig', 0);
+    });
+
+    it('should create an encrypted dead-letter queue by default', () => {
+      const dlqLambda = new ProgressiveLambda(stack, 'FailureLambda', {
+        ...defaultConfig,
+        asyncInvocation: {},
+      });
+
+      expect(dlqLambda.deadLetterQueue).toBeDefined();
+      // Created with the function, so the L2 function knows its queue
+      expect(dlqLambda.lambda.deadLetterQueue).toBe(dlqLambda.deadLetterQueue);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::SQS::Queue', {
+        QueueName: 'dev-failurelambda-dlq',
+        KmsMasterKeyId: 'alias/aws/sqs',
+        MessageRetentionPeriod: 1209600,
       });
+      template.hasResourceProperties('AWS::SQS::QueuePolicy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Effect: 'Deny',
+              Condition: { Bool: { 'aws:SecureTransport': 'false' } },
+            }),
+          ]),
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: {
+          TargetArn: Match.anyValue(),
+        },
+      });
+      template.resourceCountIs('AWS::Lambda::EventInvokeConfig', 0);
     });
 
-    it('should handle high evaluation periods', () => {
-      new ProgressiveLambda(stack, 'HighEvaluationLambda', {
+    it('should configure an on-failure destination on the alias', () => {
+      new ProgressiveLambda(stack, 'DestinationLambda', {
         ...defaultConfig,
-        alarmConfiguration: {
-          evaluationPeriods: 10,
+        asyncInvocation: {
+          failureMode: AsyncFailureMode.OnFailureDestination,
+          retryAttempts: 1,
+          maxEventAge: cdk.Duration.hours(1),
         },
       });
 
       const template = Template.fromStack(stack);
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        EvaluationPeriods: 10,
+      template.hasResourceProperties('AWS::Lambda::EventInvokeConfig', {
+        // Qualified with the stage alias rather than $LATEST
+        Qualifier: { 'Fn::Select': Match.anyValue() },
+        MaximumRetryAttempts: 1,
+        MaximumEventAgeInSeconds: 3600,
+        DestinationConfig: {
+          OnFailure: {
+            Destination: Match.anyValue(),
+          },
+        },
+      });
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        DeadLetterConfig: Match.absent(),
       });
     });
 
-    it('should work with all TreatMissingData enum values', () => {
-      const treatMissingDataValues = [
-        cdk.aws_cloudwatch.TreatMissingData.BREACHING,
-        cdk.aws_cloudwatch.TreatMissingData.NOT_BREACHING,
-        cdk.aws_cloudwatch.TreatMissingData.IGNORE,
-        cdk.aws_cloudwatch.TreatMissingData.MISSING,
-      ];
+    it('should add a queue depth alarm that takes part in rollback', () => {
+      const dlqLambda = new ProgressiveLambda(stack, 'DlqAlarmLambda', {
+        ...defaultConfig,
+        createWidget: true,
+        asyncInvocation: { alarmThreshold: 3 },
+      });
 
-      treatMissingDataValues.forEach((treatMissingData, index) => {
-        const lambda = new ProgressiveLambda(
-          stack,
-          `TreatMissingDataLambda${index}`,
-          {
-            ...defaultConfig,
-            alarmConfiguration: {
-              treatMissingData,
+      expect(dlqLambda.alarms).toHaveLength(5);
+      expect(dlqLambda.widgets).toHaveLength(9);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/SQS',
+        MetricName: 'ApproximateNumberOfMessagesVisible',
+        Statistic: 'Maximum',
+        Threshold: 3,
+      });
+
+      const groups = template.findResources(
+        'AWS::CodeDeploy::DeploymentGroup',
+        {
+          Properties: {
+            AlarmConfiguration: {
+              Alarms: Match.arrayWith([
+                {
+                  Name: Match.objectLike({
+                    Ref: Match.stringLikeRegexp(
+                      'DlqAlarmLambdaDeadLetterQueueDepth',
+                    ),
+                  }),
+                },
+              ]),
             },
           },
-        );
+        },
+      );
+      expect(Object.keys(groups)).toHaveLength(1);
+    });
+  });
 
-        expect(lambda.alarm).toBeDefined();
+  describe('Stage-aware deployment config', () => {
+    it('should select a canary deployment for prod when none is given', () => {
+      new ProgressiveLambda(stack, 'ProdLambda', {
+        ...defaultConfig,
+        stageName: 'prod',
+        deploymentConfig: undefined,
       });
 
       const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.LambdaCanary10Percent5Minutes',
+      });
+    });
 
-      // Verify each TreatMissingData value is properly set
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        TreatMissingData: 'breaching',
+    it('should select an all at once deployment for ephemeral stages', () => {
+      new ProgressiveLambda(stack, 'EphemeralLambda', {
+        ...defaultConfig,
+        stageName: 'pr-123',
+        deploymentConfig: undefined,
       });
 
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        TreatMissingData: 'notBreaching',
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.LambdaAllAtOnce',
       });
+    });
 
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        TreatMissingData: 'ignore',
+    it('should use the per-stage map when provided', () => {
+      new ProgressiveLambda(stack, 'MappedLambda', {
+        ...defaultConfig,
+        stageName: 'staging',
+        deploymentConfig: undefined,
+        deploymentConfigByStage: {
+          [Stage.Staging]:
+            codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+        },
       });
 
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        TreatMissingData: 'missing',
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName:
+          'CodeDeployDefault.LambdaLinear10PercentEvery2Minutes',
       });
     });
 
-    it('should preserve alarm description with custom configuration', () => {
-      new ProgressiveLambda(stack, 'CustomDescriptionLambda', {
+    it('should prefer an explicit deployment config over the per-stage map', () => {
+      new ProgressiveLambda(stack, 'ExplicitLambda', {
         ...defaultConfig,
-        alarmConfiguration: {
-          threshold: 7,
+        stageName: 'prod',
+        deploymentConfig: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+        deploymentConfigByStage: {
+          [Stage.Prod]:
+            codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
         },
       });
 
       const template = Template.fromStack(stack);
-      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
-        AlarmDescription: Match.stringLikeRegexp('.*deployment errors.*'),
-        Threshold: 7,
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.LambdaAllAtOnce',
       });
+      expect(
+        template.findResources('AWS::CodeDeploy::DeploymentGroup', {
+          Properties: {
+            DeploymentConfigName:
+              'CodeDeployDefault.LambdaLinear10PercentEvery2Minutes',
+          },
+        }),
+      ).toEqual({});
+    });
+  });
+
+  describe('Native Lambda alarms', () => {
+    it('should expose all rollback alarms in the alarms array', () => {
+      expect(progressiveLambda.alarms).toHaveLength(4);
+      expect(progressiveLambda.alarms[0]).toBe(progressiveLambda.alarm);
+    });
+
+    it('should create alias-scoped Errors, Throttles and Duration alarms', () => {
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/Lambda',
+        MetricName: 'Errors',
+        Statistic: 'Sum',
+        Threshold: 5,
+        Dimensions: Match.arrayWith([
+          Match.objectLike({
+            Name: 'Resource',
+            Value: Match.anyValue(),
+          }),
+        ]),
+      });
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/Lambda',
+        MetricName: 'Throttles',
+        Statistic: 'Sum',
+        Threshold: 5,
+      });
+
+      // p99 budget defaults to 80% of the 30 second timeout
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/Lambda',
+        MetricName: 'Duration',
+        ExtendedStatistic: 'p99',
+        Threshold: 24000,
+      });
+    });
+
+    it('should register every alarm with the deployment group', () => {
+      const template = Template.fromStack(stack);
+
+      const groups = template.findResources('AWS::CodeDeploy::DeploymentGroup');
+      const [group] = Object.values(groups);
+
+      expect(group.Properties.AlarmConfiguration.Alarms).toHaveLength(4);
+      expect(group.Properties.AlarmConfiguration.Enabled).toBe(true);
+    });
+
+    it('should apply custom native alarm configuration', () => {
+      new ProgressiveLambda(stack, 'CustomNativeAlarmLambda', {
+        ...defaultConfig,
+        lambdaAlarmConfiguration: {
+          errorsThreshold: 1,
+          throttlesThreshold: 2,
+          durationThreshold: cdk.Duration.seconds(3),
+          evaluationPeriods: 3,
+        },
+      });
+
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'Errors',
+        Threshold: 1,
+        EvaluationPeriods: 3,
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'Throttles',
+        Threshold: 2,
+        EvaluationPeriods: 3,
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'Duration',
+        Threshold: 3000,
+        EvaluationPeriods: 3,
+      });
+    });
+
+    it('should derive the duration budget from a custom timeout', () => {
+      new ProgressiveLambda(stack, 'ShortTimeoutLambda', {
+        ...defaultConfig,
+        timeout: cdk.Duration.seconds(10),
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'Duration',
+        Threshold: 8000,
+      });
+    });
+  });
+
+  describe('Traffic hooks', () => {
+    const hookCode = cdk.aws_lambda.Code.fromInline(`
+      exports.handler = async () => ({ status: 'Succeeded' });
+    `);
+
+    it('should not configure hooks by default', () => {
+      expect(progressiveLambda.preTrafficHook).toBeUndefined();
+      expect(progressiveLambda.postTrafficHook).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::Lambda::Function', 1);
+    });
+
+    it('should bundle hook functions and register them on the alias update policy', () => {
+      const hooked = new ProgressiveLambda(stack, 'HookedLambda', {
+        ...defaultConfig,
+        preTrafficHook: { code: hookCode, handler: 'index.handler' },
+        postTrafficHook: { code: hookCode, handler: 'index.handler' },
+      });
+
+      expect(hooked.preTrafficHook).toBeDefined();
+      expect(hooked.postTrafficHook).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      const aliases = template.findResources('AWS::Lambda::Alias', {
+        UpdatePolicy: {
+          CodeDeployLambdaAliasUpdate: {
+            BeforeAllowTrafficHook: Match.anyValue(),
+            AfterAllowTrafficHook: Match.anyValue(),
+          },
+        },
+      });
+      expect(Object.keys(aliases)).toHaveLength(1);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Runtime: 'nodejs24.x',
+        Timeout: 300,
+        Environment: {
+          Variables: {
+            TARGET_FUNCTION_ARN: Match.anyValue(),
+          },
+        },
+      });
+    });
+
+    it('should grant hooks lifecycle status and version invoke permissions', () => {
+      new ProgressiveLambda(stack, 'HookedLambda', {
+        ...defaultConfig,
+        preTrafficHook: { code: hookCode, handler: 'index.handler' },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyName: Match.stringLikeRegexp('PreTrafficHook'),
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: 'lambda:InvokeFunction',
+              Effect: 'Allow',
+            }),
+            Match.objectLike({
+              Action: 'codedeploy:PutLifecycleEventHookExecutionStatus',
+              Effect: 'Allow',
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('should accept an existing function as a hook', () => {
+      const existingHook = new cdk.aws_lambda.Function(stack, 'ExistingHook', {
+        code: hookCode,
+        handler: 'index.handler',
+        runtime: cdk.aws_lambda.Runtime.NODEJS_24_X,
+      });
+
+      const hooked = new ProgressiveLambda(stack, 'ExistingHookLambda', {
+        ...defaultConfig,
+        postTrafficHook: existingHook,
+      });
+
+      expect(hooked.postTrafficHook).toBe(existingHook);
+
+      const template = Template.fromStack(stack);
+      // The existing hook is reused rather than bundling a new function
+      template.resourceCountIs('AWS::Lambda::Function', 3);
+    });
+  });
+
+  describe('Default metric names', () => {
+    it('should use default metric success name when not provided', () => {
+      const defaultMetricLambda = new ProgressiveLambda(
+        stack,
+        'DefaultMetricLambda',
+        {
+          ...defaultConfig,
+          metricSuccessName: undefined,
+          metricSuccessNameTitle: undefined,
+          metricErrorNameTitle: undefined,
+        },
+      );
+
+      expect(defaultMetricLambda).toBeDefined();
+
+      // Create widgets to test default metric names
+      const lambdaWithWidgets = new ProgressiveLambda(
+        stack,
+        'DefaultMetricWidgetLambda',
+        {
+          ...defaultConfig,
+          createWidget: true,
+          metricSuccessName: undefined,
+          metricSuccessNameTitle: undefined,
+          metricErrorNameTitle: undefined,
+        },
+      );
+
+      expect(lambdaWithWidgets.widgets).toHaveLength(8);
+    });
+  });
+
+  describe('Edge cases and validation', () => {
+    it('should handle zero threshold in alarm configuration', () => {
+      new ProgressiveLambda(stack, 'ZeroThresholdLambda', {
+        ...defaultConfig,
+        alarmConfiguration: {
+          threshold: 0,
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Threshold: 0,
+      });
+    });
+
+    it('should handle high evaluation periods', () => {
+      new ProgressiveLambda(stack, 'HighEvaluationLambda', {
+        ...defaultConfig,
+        alarmConfiguration: {
+          evaluationPeriods: 10,
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        EvaluationPeriods: 10,
+      });
+    });
+
+    it('should work with all TreatMissingData enum values', () => {
+      const treatMissingDataValues = [
+        cdk.aws_cloudwatch.TreatMissingData.BREACHING,
+        cdk.aws_cloudwatch.TreatMissingData.NOT_BREACHING,
+        cdk.aws_cloudwatch.TreatMissingData.IGNORE,
+        cdk.aws_cloudwatch.TreatMissingData.MISSING,
+      ];
+
+      treatMissingDataValues.forEach((treatMissingData, index) => {
+        const lambda = new ProgressiveLambda(
+          stack,
+          `TreatMissingDataLambda${index}`,
+          {
+            ...defaultConfig,
+            alarmConfiguration: {
+              treatMissingData,
+            },
+          },
+        );
+
+        expect(lambda.alarm).toBeDefined();
+      });
+
+      const template = Template.fromStack(stack);
+
+      // Verify each TreatMissingData value is properly set
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        TreatMissingData: 'breaching',
+      });
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        TreatMissingData: 'notBreaching',
+      });
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        TreatMissingData: 'ignore',
+      });
+
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        TreatMissingData: 'missing',
+      });
+    });
+
+    it('should preserve alarm description with custom configuration', () => {
+      new ProgressiveLambda(stack, 'CustomDescriptionLambda', {
+        ...defaultConfig,
+        alarmConfiguration: {
+          threshold: 7,
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmDescription: Match.stringLikeRegexp('.*deployment errors.*'),
+        Threshold: 7,
+      });
+    });
+  });
+
+  describe('Powertools', () => {
+    it('should not set Powertools environment variables by default', () => {
+      const template = Template.fromStack(stack);
+      const functions = template.findResources('AWS::Lambda::Function');
+      for (const fn of Object.values(functions)) {
+        expect(
+          fn.Properties.Environment?.Variables?.POWERTOOLS_SERVICE_NAME,
+        ).toBeUndefined();
+      }
+    });
+
+    it('should derive the Powertools environment from the existing props', () => {
+      new ProgressiveLambda(stack, 'PowertoolsLambda', {
+        ...defaultConfig,
+        powertools: {},
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: Match.objectLike({
+            POWERTOOLS_SERVICE_NAME: 'TestService',
+            POWERTOOLS_METRICS_NAMESPACE: 'TestNamespace',
+            POWERTOOLS_LOG_LEVEL: 'DEBUG',
+          }),
+        },
+      });
+    });
+
+    it('should use the INFO log level for prod', () => {
+      new ProgressiveLambda(stack, 'ProdPowertoolsLambda', {
+        ...defaultConfig,
+        stageName: Stage.Prod,
+        powertools: {},
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: Match.objectLike({ POWERTOOLS_LOG_LEVEL: 'INFO' }),
+        },
+      });
+    });
+
+    it('should let explicit settings take precedence', () => {
+      new ProgressiveLambda(stack, 'OverrideLambda', {
+        ...defaultConfig,
+        powertools: { logLevel: 'WARN' },
+        environment: { POWERTOOLS_SERVICE_NAME: 'CustomService' },
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: Match.objectLike({
+            POWERTOOLS_SERVICE_NAME: 'CustomService',
+            POWERTOOLS_LOG_LEVEL: 'WARN',
+          }),
+        },
+      });
+    });
+
+    it('should attach the public Powertools layer for a version number', () => {
+      new ProgressiveLambda(stack, 'LayerLambda', {
+        ...defaultConfig,
+        powertools: { layer: 38 },
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+        Layers: [
+          {
+            'Fn::Join': [
+              '',
+              [
+                'arn:aws:lambda:',
+                { Ref: 'AWS::Region' },
+                ':094274105915:layer:AWSLambdaPowertoolsTypeScriptV2:38',
+              ],
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should set the idempotency table name and grant read/write access', () => {
+      const idempotencyTable = new IdempotencyTable(stack, 'Idempotency');
+
+      new ProgressiveLambda(stack, 'IdempotentLambda', {
+        ...defaultConfig,
+        powertools: { idempotencyTable },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        Environment: {
+          Variables: Match.objectLike({
+            IDEMPOTENCY_TABLE_NAME: {
+              Ref: Match.stringLikeRegexp('Idempotency'),
+            },
+          }),
+        },
+      });
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: Match.arrayWith([
+                'dynamodb:GetItem',
+                'dynamodb:PutItem',
+                'dynamodb:UpdateItem',
+                'dynamodb:DeleteItem',
+              ]),
+              Effect: 'Allow',
+            }),
+          ]),
+        },
+      });
+    });
+  });
+
+  describe('Log group', () => {
+    it('should write structured JSON logs to an explicit log group', () => {
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        LoggingConfig: {
+          LogFormat: 'JSON',
+          LogGroup: {
+            Ref: Match.stringLikeRegexp('TestProgressiveLambdaLogGroup'),
+          },
+        },
+      });
+      expect(progressiveLambda.logGroup).toBeDefined();
+    });
+
+    it('should use short retention and destroy the log group for develop stages', () => {
+      const template = Template.fromStack(stack);
+
+      template.hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 7 },
+        DeletionPolicy: 'Delete',
+      });
+    });
+
+    it('should use long retention and retain the log group for prod', () => {
+      const prodStack = new cdk.Stack();
+      new ProgressiveLambda(prodStack, 'ProdLambda', {
+        ...defaultConfig,
+        application: undefined,
+        snsTopic: undefined,
+        stageName: Stage.Prod,
+      });
+
+      Template.fromStack(prodStack).hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 365 },
+        DeletionPolicy: 'Retain',
+      });
+    });
+
+    it('should allow retention and removal policy overrides', () => {
+      new ProgressiveLambda(stack, 'OverrideLogsLambda', {
+        ...defaultConfig,
+        logging: {
+          retention: cdk.aws_logs.RetentionDays.ONE_MONTH,
+          removalPolicy: cdk.RemovalPolicy.RETAIN,
+        },
+      });
+
+      Template.fromStack(stack).hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 30 },
+        DeletionPolicy: 'Retain',
+      });
+    });
+
+    it('should use the standard logRetention prop as the log group retention', () => {
+      new ProgressiveLambda(stack, 'LogRetentionLambda', {
+        ...defaultConfig,
+        logRetention: cdk.aws_logs.RetentionDays.TWO_WEEKS,
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Logs::LogGroup', {
+        RetentionInDays: 14,
+      });
+      template.resourceCountIs('Custom::LogRetention', 0);
+    });
+
+    it('should encrypt the log group with the given KMS key', () => {
+      const key = new cdk.aws_kms.Key(stack, 'LogsKey');
+
+      new ProgressiveLambda(stack, 'EncryptedLogsLambda', {
+        ...defaultConfig,
+        logging: { encryptionKey: key },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Logs::LogGroup', {
+        KmsKeyId: Match.anyValue(),
+      });
+      template.hasResourceProperties('AWS::KMS::Key', {
+        KeyPolicy: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Principal: {
+                Service: {
+                  'Fn::Join': [
+                    '',
+                    ['logs.', { Ref: 'AWS::Region' }, '.amazonaws.com'],
+                  ],
+                },
+              },
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('should not create a log group when one is provided', () => {
+      const logGroup = new cdk.aws_logs.LogGroup(stack, 'SharedLogs');
+
+      const lambdaWithLogGroup = new ProgressiveLambda(
+        stack,
+        'SharedLogsLambda',
+        {
+          ...defaultConfig,
+          logGroup,
+        },
+      );
+
+      expect(lambdaWithLogGroup.logGroup).toBe(logGroup);
+      expect(
+        lambdaWithLogGroup.node.tryFindChild('SharedLogsLambdaLogGroup'),
+      ).toBeUndefined();
+    });
+
+    it('should add the error log metric filter to a provided log group', () => {
+      const logGroup = new cdk.aws_logs.LogGroup(stack, 'SharedLogs');
+
+      const lambdaWithLogGroup = new ProgressiveLambda(
+        stack,
+        'SharedLogsLambda',
+        {
+          ...defaultConfig,
+          logGroup,
+          logging: { errorLogAlarm: {} },
+        },
+      );
+
+      expect(lambdaWithLogGroup.alarms).toHaveLength(5);
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::Logs::MetricFilter',
+        {
+          LogGroupName: stack.resolve(logGroup.logGroupName),
+          MetricTransformations: [
+            Match.objectLike({ MetricName: 'SharedLogsLambda-ErrorLogs' }),
+          ],
+        },
+      );
+    });
+
+    it('should not create an error log metric filter by default', () => {
+      Template.fromStack(stack).resourceCountIs('AWS::Logs::MetricFilter', 0);
+    });
+
+    it('should turn ERROR log lines into a rollback alarm', () => {
+      const lambdaWithLogAlarm = new ProgressiveLambda(
+        stack,
+        'LogAlarmLambda',
+        {
+          ...defaultConfig,
+          logging: { errorLogAlarm: { threshold: 2 } },
+        },
+      );
+
+      expect(lambdaWithLogAlarm.alarms).toHaveLength(5);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Logs::MetricFilter', {
+        FilterPattern: '{ $.level = "ERROR" }',
+        MetricTransformations: [
+          {
+            MetricNamespace: 'TestNamespace',
+            MetricName: 'LogAlarmLambda-ErrorLogs',
+            MetricValue: '1',
+          },
+        ],
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'TestNamespace',
+        MetricName: 'LogAlarmLambda-ErrorLogs',
+        Threshold: 2,
+      });
+
+      const deploymentGroups = template.findResources(
+        'AWS::CodeDeploy::DeploymentGroup',
+      );
+      const logAlarmGroup = Object.entries(deploymentGroups).find(([key]) =>
+        key.startsWith('LogAlarmLambda'),
+      );
+      expect(
+        logAlarmGroup?.[1].Properties.AlarmConfiguration.Alarms,
+      ).toHaveLength(5);
+    });
+  });
+
+  describe('Function URL', () => {
+    it('should not create a function URL by default', () => {
+      expect(progressiveLambda.functionUrl).toBeUndefined();
+      Template.fromStack(stack).resourceCountIs('AWS::Lambda::Url', 0);
+    });
+
+    it('should attach an IAM-authenticated URL to the stage alias', () => {
+      const lambdaWithUrl = new ProgressiveLambda(stack, 'UrlLambda', {
+        ...defaultConfig,
+        functionUrl: {},
+      });
+
+      expect(lambdaWithUrl.functionUrl).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Url', {
+        AuthType: 'AWS_IAM',
+        Qualifier: 'dev',
+      });
+      template.hasOutput('*', {
+        Description: 'dev function URL for UrlLambda',
+      });
+    });
+
+    it('should configure CORS and public auth outside prod', () => {
+      new ProgressiveLambda(stack, 'PublicUrlLambda', {
+        ...defaultConfig,
+        functionUrl: {
+          authType: cdk.aws_lambda.FunctionUrlAuthType.NONE,
+          cors: {
+            allowedOrigins: ['https://tools.example.com'],
+            allowedMethods: [cdk.aws_lambda.HttpMethod.GET],
+          },
+        },
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Url', {
+        AuthType: 'NONE',
+        Cors: {
+          AllowOrigins: ['https://tools.example.com'],
+          AllowMethods: ['GET'],
+        },
+      });
+    });
+
+    it('should reject public auth in prod', () => {
+      expect(() => {
+        new ProgressiveLambda(stack, 'ProdPublicUrlLambda', {
+          ...defaultConfig,
+          stageName: Stage.Prod,
+          functionUrl: {
+            authType: cdk.aws_lambda.FunctionUrlAuthType.NONE,
+          },
+        });
+      }).toThrow(
+        'Function URL for ProdPublicUrlLambda must use AWS_IAM auth in the prod stage',
+      );
+    });
+  });
+
+  describe('VPC placement', () => {
+    let vpc: cdk.aws_ec2.Vpc;
+
+    beforeEach(() => {
+      vpc = new cdk.aws_ec2.Vpc(stack, 'Vpc');
+    });
+
+    it('should not create a security group outside a VPC', () => {
+      expect(progressiveLambda.securityGroup).toBeUndefined();
+    });
+
+    it('should create a stage-named security group with HTTPS egress by default', () => {
+      const vpcLambda = new ProgressiveLambda(stack, 'VpcLambda', {
+        ...defaultConfig,
+        vpc,
+      });
+
+      expect(vpcLambda.securityGroup).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+        GroupName: 'dev-vpclambda-sg',
+        SecurityGroupEgress: [
+          {
+            CidrIp: '0.0.0.0/0',
+            FromPort: 443,
+            ToPort: 443,
+            IpProtocol: 'tcp',
+            Description: 'HTTPS to AWS service endpoints',
+          },
+        ],
+      });
+      expect(vpcLambda.lambda.connections.securityGroups).toEqual([
+        vpcLambda.securityGroup,
+      ]);
+    });
+
+    it('should apply egress allow-lists by CIDR and peer security group', () => {
+      const cacheSecurityGroup = new cdk.aws_ec2.SecurityGroup(
+        stack,
+        'CacheSecurityGroup',
+        { vpc },
+      );
+
+      new ProgressiveLambda(stack, 'EgressLambda', {
+        ...defaultConfig,
+        vpc,
+        egressRules: [
+          {
+            peer: cdk.aws_ec2.Peer.ipv4('10.0.16.0/20'),
+            port: cdk.aws_ec2.Port.tcp(5432),
+            description: 'PostgreSQL',
+          },
+          {
+            peer: cacheSecurityGroup,
+            port: cdk.aws_ec2.Port.tcp(6379),
+            description: 'Redis',
+          },
+        ],
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+        GroupName: 'dev-egresslambda-sg',
+        SecurityGroupEgress: [
+          {
+            CidrIp: '10.0.16.0/20',
+            FromPort: 5432,
+            ToPort: 5432,
+            IpProtocol: 'tcp',
+            Description: 'PostgreSQL',
+          },
+        ],
+      });
+      template.hasResourceProperties('AWS::EC2::SecurityGroupEgress', {
+        FromPort: 6379,
+        ToPort: 6379,
+        Description: 'Redis',
+      });
+    });
+
+    it.each([
+      true,
+      false,
+    ])('should throw when allowAllOutbound is %s with the generated security group', (allowAllOutbound) => {
+      expect(() => {
+        new ProgressiveLambda(stack, 'OutboundLambda', {
+          ...defaultConfig,
+          vpc,
+          allowAllOutbound,
+        });
+      }).toThrow(
+        'OutboundLambda cannot set allowAllOutbound with the generated security group; list the outbound traffic in egressRules, or pass securityGroups',
+      );
+    });
+
+    it('should use provided security groups instead of generating one', () => {
+      const securityGroup = new cdk.aws_ec2.SecurityGroup(
+        stack,
+        'SharedSecurityGroup',
+        { vpc },
+      );
+
+      const vpcLambda = new ProgressiveLambda(stack, 'SharedSgLambda', {
+        ...defaultConfig,
+        vpc,
+        securityGroups: [securityGroup],
+      });
+
+      expect(vpcLambda.securityGroup).toBeUndefined();
+      // Only the shared security group exists
+      Template.fromStack(stack).resourceCountIs('AWS::EC2::SecurityGroup', 1);
+    });
+
+    it('should warn when a public subnet is selected', () => {
+      new ProgressiveLambda(stack, 'PublicSubnetLambda', {
+        ...defaultConfig,
+        vpc,
+        vpcSubnets: { subnetType: cdk.aws_ec2.SubnetType.PUBLIC },
+        allowPublicSubnet: true,
+      });
+
+      Annotations.fromStack(stack).hasWarning(
+        '*',
+        Match.stringLikeRegexp(
+          'PublicSubnetLambda is placed in a public subnet',
+        ),
+      );
+    });
+
+    it('should not warn for private subnets', () => {
+      new ProgressiveLambda(stack, 'PrivateSubnetLambda', {
+        ...defaultConfig,
+        vpc,
+      });
+
+      Annotations.fromStack(stack).hasNoWarning(
+        '*',
+        Match.stringLikeRegexp('public subnet'),
+      );
+    });
+  });
+
+  describe('Event source helpers', () => {
+    const getDeploymentGroupAlarms = (template: Template) =>
+      Object.values(
+        template.findResources('AWS::CodeDeploy::DeploymentGroup'),
+      )[0].Properties.AlarmConfiguration.Alarms;
+
+    it('should bind an SQS source to the alias with batch failure reporting', () => {
+      const queue = new cdk.aws_sqs.Queue(stack, 'OrdersQueue');
+
+      progressiveLambda.addSqsEventSource(queue, { batchSize: 5 });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        // Alias-qualified function name
+        FunctionName: { 'Fn::Join': ['', Match.arrayWith([':dev'])] },
+        BatchSize: 5,
+        FunctionResponseTypes: ['ReportBatchItemFailures'],
+      });
+    });
+
+    it('should add a queue age alarm that takes part in rollback', () => {
+      const queue = new cdk.aws_sqs.Queue(stack, 'OrdersQueue');
+
+      progressiveLambda.addSqsEventSource(queue, {
+        maxMessageAge: cdk.Duration.minutes(2),
+      });
+
+      expect(progressiveLambda.alarms).toHaveLength(5);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/SQS',
+        MetricName: 'ApproximateAgeOfOldestMessage',
+        Statistic: 'Maximum',
+        Threshold: 120,
+        AlarmActions: Match.anyValue(),
+      });
+      expect(getDeploymentGroupAlarms(template)).toHaveLength(5);
+    });
+
+    it('should add an alarm for each queue when queues in different scopes share an id', () => {
+      const ordersQueue = new cdk.aws_sqs.Queue(stack, 'OrdersQueue');
+      const billingQueue = new cdk.aws_sqs.Queue(
+        new Construct(stack, 'Billing'),
+        'OrdersQueue',
+      );
+
+      progressiveLambda.addSqsEventSource(ordersQueue);
+      progressiveLambda.addSqsEventSource(billingQueue);
+
+      expect(progressiveLambda.alarms).toHaveLength(6);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::Lambda::EventSourceMapping', 2);
+      template.resourcePropertiesCountIs(
+        'AWS::CloudWatch::Alarm',
+        { MetricName: 'ApproximateAgeOfOldestMessage' },
+        2,
+      );
+    });
+
+    it('should bind a Kinesis source to the alias with an iterator age alarm', () => {
+      const stream = new cdk.aws_kinesis.Stream(stack, 'ClickStream');
+
+      progressiveLambda.addKinesisEventSource(stream, {
+        startingPosition: cdk.aws_lambda.StartingPosition.LATEST,
+        maxIteratorAge: cdk.Duration.seconds(30),
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        // Alias-qualified function name
+        FunctionName: { 'Fn::Join': ['', Match.arrayWith([':dev'])] },
+        StartingPosition: 'LATEST',
+        FunctionResponseTypes: ['ReportBatchItemFailures'],
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Namespace: 'AWS/Lambda',
+        MetricName: 'IteratorAge',
+        Statistic: 'Maximum',
+        Threshold: 30000,
+        Dimensions: Match.arrayWith([
+          { Name: 'Resource', Value: Match.anyValue() },
+        ]),
+      });
+      expect(getDeploymentGroupAlarms(template)).toHaveLength(5);
+    });
+
+    it('should bind a DynamoDB stream source to the alias with an iterator age alarm', () => {
+      const table = new cdk.aws_dynamodb.Table(stack, 'OrdersTable', {
+        partitionKey: {
+          name: 'pk',
+          type: cdk.aws_dynamodb.AttributeType.STRING,
+        },
+        stream: cdk.aws_dynamodb.StreamViewType.NEW_IMAGE,
+      });
+
+      progressiveLambda.addDynamoEventSource(table, {
+        startingPosition: cdk.aws_lambda.StartingPosition.TRIM_HORIZON,
+      });
+
+      expect(progressiveLambda.alarms).toHaveLength(5);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+        // Alias-qualified function name
+        FunctionName: { 'Fn::Join': ['', Match.arrayWith([':dev'])] },
+        StartingPosition: 'TRIM_HORIZON',
+        FunctionResponseTypes: ['ReportBatchItemFailures'],
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'IteratorAge',
+        Threshold: 60000,
+      });
+    });
+
+    it('should share one iterator age alarm between stream sources at the smallest age', () => {
+      const stream = new cdk.aws_kinesis.Stream(stack, 'ClickStream');
+      const table = new cdk.aws_dynamodb.Table(stack, 'OrdersTable', {
+        partitionKey: {
+          name: 'pk',
+          type: cdk.aws_dynamodb.AttributeType.STRING,
+        },
+        stream: cdk.aws_dynamodb.StreamViewType.NEW_IMAGE,
+      });
+
+      progressiveLambda.addDynamoEventSource(table, {
+        startingPosition: cdk.aws_lambda.StartingPosition.TRIM_HORIZON,
+      });
+      progressiveLambda.addKinesisEventSource(stream, {
+        startingPosition: cdk.aws_lambda.StartingPosition.LATEST,
+        maxIteratorAge: cdk.Duration.seconds(30),
+      });
+
+      expect(progressiveLambda.alarms).toHaveLength(5);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::Lambda::EventSourceMapping', 2);
+      const iteratorAgeAlarms = template.findResources(
+        'AWS::CloudWatch::Alarm',
+        { Properties: { MetricName: 'IteratorAge' } },
+      );
+      expect(Object.values(iteratorAgeAlarms)).toHaveLength(1);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'IteratorAge',
+        Threshold: 30000,
+        AlarmDescription:
+          'dev - iterator age >= 30000ms for TestProgressiveLambda',
+      });
+      expect(getDeploymentGroupAlarms(template)).toHaveLength(5);
+    });
+
+    it('should allow batch failure reporting to be turned off', () => {
+      const queue = new cdk.aws_sqs.Queue(stack, 'OrdersQueue');
+
+      progressiveLambda.addSqsEventSource(queue, {
+        reportBatchItemFailures: false,
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::Lambda::EventSourceMapping',
+        { FunctionResponseTypes: Match.absent() },
+      );
+    });
+  });
+
+  describe('Schedules and event rules', () => {
+    it('should not create a target dead-letter queue by default', () => {
+      expect(progressiveLambda.targetDeadLetterQueue).toBeUndefined();
+    });
+
+    it('should create a named EventBridge rule targeting the alias for an events schedule', () => {
+      const scheduledLambda = new ProgressiveLambda(stack, 'ReportLambda', {
+        ...defaultConfig,
+        schedules: [
+          {
+            name: 'nightly',
+            schedule: cdk.aws_events.Schedule.cron({ hour: '2', minute: '0' }),
+            input: { report: 'nightly' },
+          },
+        ],
+      });
+
+      expect(scheduledLambda.targetDeadLetterQueue).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Events::Rule', {
+        Name: 'dev-reportlambda-nightly-rule',
+        ScheduleExpression: 'cron(0 2 * * ? *)',
+        Targets: [
+          Match.objectLike({
+            Arn: { Ref: Match.stringLikeRegexp('ReportLambdaAlias') },
+            Input: JSON.stringify({ report: 'nightly' }),
+            DeadLetterConfig: { Arn: Match.anyValue() },
+            RetryPolicy: {
+              MaximumRetryAttempts: 2,
+              MaximumEventAgeInSeconds: 3600,
+            },
+          }),
+        ],
+      });
+      template.hasResourceProperties('AWS::SQS::Queue', {
+        QueueName: 'dev-reportlambda-targets-dlq',
+        SqsManagedSseEnabled: true,
+      });
+    });
+
+    it('should create a Scheduler schedule with a time zone targeting the alias', () => {
+      new ProgressiveLambda(stack, 'DigestLambda', {
+        ...defaultConfig,
+        schedules: [
+          {
+            name: 'morning',
+            schedule: cdk.aws_scheduler.ScheduleExpression.cron({
+              hour: '8',
+              minute: '0',
+              timeZone: cdk.TimeZone.EUROPE_LONDON,
+            }),
+            retryAttempts: 5,
+          },
+        ],
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::Scheduler::Schedule',
+        {
+          Name: 'dev-digestlambda-morning-schedule',
+          ScheduleExpression: 'cron(0 8 * * ? *)',
+          ScheduleExpressionTimezone: 'Europe/London',
+          Target: Match.objectLike({
+            Arn: { Ref: Match.stringLikeRegexp('DigestLambdaAlias') },
+            DeadLetterConfig: { Arn: Match.anyValue() },
+            RetryPolicy: {
+              MaximumRetryAttempts: 5,
+              MaximumEventAgeInSeconds: 3600,
+            },
+          }),
+        },
+      );
+    });
+
+    it('should add event rules that share one dead-letter queue and rollback alarm', () => {
+      const eventBus = new cdk.aws_events.EventBus(stack, 'OrdersBus');
+
+      const rule = progressiveLambda.addEventRule('order-placed', {
+        eventBus,
+        eventPattern: { source: ['orders'], detailType: ['OrderPlaced'] },
+        retryAttempts: 3,
+      });
+      progressiveLambda.addEventRule('order-cancelled', {
+        eventBus,
+        eventPattern: { source: ['orders'], detailType: ['OrderCancelled'] },
+      });
+
+      expect(rule).toBeDefined();
+      expect(progressiveLambda.alarms).toHaveLength(5);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Events::Rule', {
+        Name: 'dev-testprogressivelambda-order-placed-rule',
+        EventPattern: { source: ['orders'], 'detail-type': ['OrderPlaced'] },
+        Targets: [
+          Match.objectLike({
+            RetryPolicy: Match.objectLike({ MaximumRetryAttempts: 3 }),
+          }),
+        ],
+      });
+      template.resourcePropertiesCountIs(
+        'AWS::SQS::Queue',
+        { QueueName: 'dev-testprogressivelambda-targets-dlq' },
+        1,
+      );
+      template.hasResourceProperties('AWS::Lambda::Permission', {
+        Principal: 'events.amazonaws.com',
+        FunctionName: {
+          Ref: Match.stringLikeRegexp('TestProgressiveLambdaAlias'),
+        },
+      });
+    });
+
+    it('should pass cdk-nag checks with schedules', () => {
+      const nagApp = new cdk.App();
+      const nagStack = new cdk.Stack(nagApp, 'TestStack');
+
+      new ProgressiveLambda(nagStack, 'NagLambda', {
+        ...defaultConfig,
+        application: undefined,
+        snsTopic: undefined,
+        schedules: [
+          {
+            name: 'hourly',
+            schedule: cdk.aws_events.Schedule.rate(cdk.Duration.hours(1)),
+          },
+          {
+            name: 'daily',
+            schedule: cdk.aws_scheduler.ScheduleExpression.rate(
+              cdk.Duration.days(1),
+            ),
+          },
+        ],
+      });
+
+      NagSuppressions.addResourceSuppressionsByPath(
+        nagStack,
+        [
+          '/TestStack/NagLambda/NagLambda/ServiceRole/Resource',
+          '/TestStack/NagLambda/NagLambdaCanaryDeployment/ServiceRole/Resource',
+        ],
+        [
+          {
+            id: 'AwsSolutions-IAM4',
+            reason:
+              'Using AWS managed policies for standard Lambda and CodeDeploy execution roles',
+          },
+        ],
+      );
+      NagSuppressions.addResourceSuppressionsByPath(
+        nagStack,
+        ['/TestStack/NagLambda/NagLambda/ServiceRole/DefaultPolicy/Resource'],
+        [
+          {
+            id: 'AwsSolutions-IAM5',
+            reason:
+              'X-Ray tracing requires wildcard permissions for trace segments',
+            appliesTo: ['Resource::*'],
+          },
+        ],
+      );
+
+      cdk.Aspects.of(nagApp).add(new AwsSolutionsChecks({ verbose: true }));
+
+      const errors = Annotations.fromStack(nagStack).findError(
+        '*',
+        Match.stringLikeRegexp('AwsSolutions-.*'),
+      );
+
+      if (errors.length) {
+        console.error('CDK Nag Errors:', errors);
+      }
+
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('SLO burn-rate alarms', () => {
+    it('should create fast and slow composite alarms for each objective', () => {
+      const sloLambda = new ProgressiveLambda(stack, 'SloLambda', {
+        ...defaultConfig,
+        slo: {
+          availabilityTarget: 99.9,
+          latencyTarget: { threshold: cdk.Duration.millis(500), target: 99 },
+        },
+      });
+
+      expect(sloLambda.sloAlarms).toHaveLength(4);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::CloudWatch::CompositeAlarm', 4);
+      template.hasResourceProperties('AWS::CloudWatch::CompositeAlarm', {
+        ActionsEnabled: true,
+        AlarmActions: [{ Ref: Match.stringLikeRegexp('TestTopic') }],
+        AlarmDescription:
+          'dev - Availability SLO 99.9% burning at 14.4x over 1 hour and 5 minutes for SloLambda',
+      });
+    });
+
+    it('should alarm on the availability burn rate from the success and error metrics', () => {
+      new ProgressiveLambda(stack, 'SloLambda', {
+        ...defaultConfig,
+        slo: { availabilityTarget: 99.9 },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        ActionsEnabled: false,
+        ComparisonOperator: 'GreaterThanThreshold',
+        Threshold: 6,
+        Metrics: Match.arrayWith([
+          Match.objectLike({
+            Expression: 'availability / 0.1',
+            ReturnData: true,
+          }),
+          Match.objectLike({
+            MetricStat: Match.objectLike({
+              Metric: Match.objectLike({ MetricName: 'ErrorMetric' }),
+              Period: 21600,
+            }),
+          }),
+          Match.objectLike({
+            MetricStat: Match.objectLike({
+              Metric: Match.objectLike({ MetricName: 'SuccessMetric' }),
+              Period: 21600,
+            }),
+          }),
+        ]),
+      });
+    });
+
+    it('should alarm on the latency burn rate from the alias duration percentile rank', () => {
+      new ProgressiveLambda(stack, 'SloLambda', {
+        ...defaultConfig,
+        slo: {
+          latencyTarget: { threshold: cdk.Duration.millis(500), target: 99 },
+          burnRateWindows: [
+            {
+              name: 'Deploy',
+              longWindow: cdk.Duration.minutes(10),
+              shortWindow: cdk.Duration.minutes(1),
+              burnRate: 10,
+            },
+          ],
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::CloudWatch::CompositeAlarm', 1);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        Threshold: 10,
+        Metrics: Match.arrayWith([
+          Match.objectLike({ Expression: 'latency / 1' }),
+          Match.objectLike({
+            MetricStat: Match.objectLike({
+              Metric: Match.objectLike({ MetricName: 'Duration' }),
+              Period: 60,
+              Stat: 'PR(:500)',
+            }),
+          }),
+        ]),
+      });
+    });
+
+    it('should register the composite alarms with the deployment group', () => {
+      new ProgressiveLambda(stack, 'SloLambda', {
+        ...defaultConfig,
+        slo: { availabilityTarget: 99.5 },
+      });
+
+      const deploymentGroup = Object.values(
+        Template.fromStack(stack).findResources(
+          'AWS::CodeDeploy::DeploymentGroup',
+          {
+            Properties: {
+              AlarmConfiguration: {
+                Alarms: Match.arrayWith([
+                  {
+                    Name: {
+                      Ref: Match.stringLikeRegexp(
+                        'SloLambdaAvailabilityFastBurn',
+                      ),
+                    },
+                  },
+                ]),
+              },
+            },
+          },
+        ),
+      );
+
+      expect(deploymentGroup).toHaveLength(1);
+      expect(
+        deploymentGroup[0].Properties.AlarmConfiguration.Alarms,
+      ).toHaveLength(6);
+    });
+
+    it('should add an SLO summary widget', () => {
+      const sloLambda = new ProgressiveLambda(stack, 'SloLambda', {
+        ...defaultConfig,
+        createWidget: true,
+        slo: {
+          availabilityTarget: 99.9,
+          latencyTarget: { threshold: cdk.Duration.millis(500), target: 99 },
+        },
+      });
+
+      expect(sloLambda.widgets.length).toBe(9);
+
+      const summary = sloLambda.widgets[3];
+      expect(summary).toBeInstanceOf(cloudwatch.SingleValueWidget);
+      expect(summary.width).toBe(12);
+
+      const [json] = summary.toJson();
+      expect(json.properties.title).toBe('SloLambda - SLO');
+      expect(json.properties.setPeriodToTimeRange).toBe(true);
+
+      // The SLO alarms roll deployments back, so the alarm status widget shows them too
+      const alarmStatus = sloLambda.widgets.find(
+        (widget) => widget instanceof cloudwatch.AlarmStatusWidget,
+      );
+      const statusAlarms = stack.resolve(
+        alarmStatus?.toJson()[0].properties.alarms,
+      );
+      expect(sloLambda.sloAlarms).toHaveLength(4);
+      expect(statusAlarms).toHaveLength(
+        sloLambda.alarms.length + sloLambda.sloAlarms.length,
+      );
+      expect(statusAlarms).toEqual(
+        expect.arrayContaining(
+          sloLambda.sloAlarms.map((alarm) => stack.resolve(alarm.alarmArn)),
+        ),
+      );
+    });
+
+    it('should not create SLO alarms by default', () => {
+      expect(progressiveLambda.sloAlarms).toHaveLength(0);
+      Template.fromStack(stack).resourceCountIs(
+        'AWS::CloudWatch::CompositeAlarm',
+        0,
+      );
+    });
+
+    it('should throw when no objective is given', () => {
+      expect(() => {
+        new ProgressiveLambda(stack, 'SloLambda', {
+          ...defaultConfig,
+          slo: {},
+        });
+      }).toThrow(
+        'SLO for SloLambda must set an availabilityTarget or a latencyTarget',
+      );
+    });
+
+    it('should throw when a target is out of range', () => {
+      expect(() => {
+        new ProgressiveLambda(stack, 'SloLambda', {
+          ...defaultConfig,
+          slo: { availabilityTarget: 100 },
+        });
+      }).toThrow(
+        'Availability target for SloLambda must be between 0 and 100, received 100',
+      );
+    });
+  });
+
+  describe('Rollback alarm limit', () => {
+    const limitConfig = {
+      slo: { availabilityTarget: 99.9 },
+      anomalyDetection: { duration: true },
+      asyncInvocation: {},
+      logging: { errorLogAlarm: {} },
+    };
+
+    it('should allow the 10 alarms CodeDeploy accepts', () => {
+      const limitLambda = new ProgressiveLambda(stack, 'LimitLambda', {
+        ...defaultConfig,
+        ...limitConfig,
+      });
+
+      expect(limitLambda.alarms.length + limitLambda.sloAlarms.length).toBe(10);
+
+      const deploymentGroups = Template.fromStack(stack).findResources(
+        'AWS::CodeDeploy::DeploymentGroup',
+      );
+      const limitGroup = Object.entries(deploymentGroups).find(([key]) =>
+        key.startsWith('LimitLambda'),
+      );
+      expect(limitGroup?.[1].Properties.AlarmConfiguration.Alarms).toHaveLength(
+        10,
+      );
+    });
+
+    it('should throw when the construct needs more than 10 rollback alarms', () => {
+      expect(
+        () =>
+          new ProgressiveLambda(stack, 'LimitLambda', {
+            ...defaultConfig,
+            ...limitConfig,
+            schedules: [
+              {
+                name: 'nightly',
+                schedule: cdk.aws_events.Schedule.cron({
+                  hour: '2',
+                  minute: '0',
+                }),
+              },
+            ],
+          }),
+      ).toThrow(
+        'LimitLambda needs 11 rollback alarms, but a CodeDeploy deployment group accepts at most 10',
+      );
+    });
+
+    it('should throw when an event source would exceed the limit', () => {
+      const limitLambda = new ProgressiveLambda(stack, 'LimitLambda', {
+        ...defaultConfig,
+        ...limitConfig,
+      });
+
+      expect(() =>
+        limitLambda.addSqsEventSource(
+          new cdk.aws_sqs.Queue(stack, 'OrdersQueue'),
+        ),
+      ).toThrow(
+        'LimitLambda needs 11 rollback alarms, but a CodeDeploy deployment group accepts at most 10',
+      );
+    });
+
+    it('should throw when the initial alarms exceed the limit', () => {
+      expect(
+        () =>
+          new ProgressiveLambda(stack, 'LimitLambda', {
+            ...defaultConfig,
+            slo: {
+              availabilityTarget: 99.9,
+              latencyTarget: {
+                threshold: cdk.Duration.millis(500),
+                target: 99,
+              },
+            },
+            anomalyDetection: { duration: true },
+            asyncInvocation: {},
+          }),
+      ).toThrow('LimitLambda needs 11 rollback alarms');
+    });
+  });
+
+  describe('Anomaly detection alarms', () => {
+    it('should add an anomaly alarm on the error metric next to the static alarm', () => {
+      const anomalyLambda = new ProgressiveLambda(stack, 'AnomalyLambda', {
+        ...defaultConfig,
+        anomalyDetection: {},
+      });
+
+      expect(anomalyLambda.alarms).toHaveLength(5);
+      expect(anomalyLambda.alarm.node.id).toBe('AnomalyLambdaFailure');
+      expect(anomalyLambda.alarms[4].node.id).toBe(
+        'AnomalyLambdaFailureAnomaly',
+      );
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmDescription:
+          'dev - TestNamespace/ErrorMetric deployment errors above the 2 standard deviation anomaly band for AnomalyLambda',
+        ComparisonOperator: 'GreaterThanUpperThreshold',
+        ThresholdMetricId: 'band',
+        Threshold: Match.absent(),
+        MetricName: Match.absent(),
+        Metrics: [
+          {
+            Id: 'm',
+            ReturnData: true,
+            MetricStat: {
+              Metric: {
+                MetricName: 'ErrorMetric',
+                Namespace: 'TestNamespace',
+                Dimensions: [{ Name: 'service', Value: 'TestService' }],
+              },
+              Period: 60,
+              Stat: 'Sum',
+            },
+          },
+          {
+            Id: 'band',
+            Expression: 'ANOMALY_DETECTION_BAND(m, 2)',
+            Label: 'Anomaly Detection Band',
+            ReturnData: true,
+          },
+        ],
+      });
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        MetricName: 'ErrorMetric',
+        Threshold: 10,
+      });
+    });
+
+    it('should use the configured band width and evaluation periods', () => {
+      new ProgressiveLambda(stack, 'AnomalyLambda', {
+        ...defaultConfig,
+        anomalyDetection: { bandWidth: 3.5, evaluationPeriods: 3 },
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::CloudWatch::Alarm',
+        {
+          EvaluationPeriods: 3,
+          Metrics: Match.arrayWith([
+            Match.objectLike({
+              Expression: Match.stringLikeRegexp(', 3.5\\)$'),
+            }),
+          ]),
+        },
+      );
+    });
+
+    it('should replace the static error and duration alarms', () => {
+      const anomalyLambda = new ProgressiveLambda(stack, 'AnomalyLambda', {
+        ...defaultConfig,
+        anomalyDetection: { duration: true, replaceThresholdAlarms: true },
+      });
+
+      expect(anomalyLambda.alarms).toHaveLength(4);
+      expect(anomalyLambda.alarm.node.id).toBe('AnomalyLambdaFailureAnomaly');
+      expect(anomalyLambda.alarms[3].node.id).toBe(
+        'AnomalyLambdaDurationAnomaly',
+      );
+
+      const template = Template.fromStack(stack);
+      template.resourcePropertiesCountIs(
+        'AWS::CloudWatch::Alarm',
+        { AlarmDescription: Match.stringLikeRegexp('AnomalyLambda$') },
+        4,
+      );
+      template.resourcePropertiesCountIs(
+        'AWS::CloudWatch::Alarm',
+        { MetricName: 'ErrorMetric' },
+        1, // The default ProgressiveLambda only
+      );
+      template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+        AlarmDescription:
+          'dev - AWS/Lambda Duration p99 above the 2 standard deviation anomaly band for AnomalyLambda',
+        Metrics: Match.arrayWith([
+          Match.objectLike({
+            MetricStat: Match.objectLike({
+              Metric: Match.objectLike({ MetricName: 'Duration' }),
+              Stat: 'p99',
+            }),
+          }),
+        ]),
+      });
+    });
+
+    it('should register the anomaly alarms with the deployment group', () => {
+      new ProgressiveLambda(stack, 'AnomalyLambda', {
+        ...defaultConfig,
+        anomalyDetection: { duration: true },
+      });
+
+      const deploymentGroups = Template.fromStack(stack).findResources(
+        'AWS::CodeDeploy::DeploymentGroup',
+        {
+          Properties: {
+            AlarmConfiguration: {
+              Alarms: Match.arrayWith([
+                {
+                  Name: {
+                    Ref: Match.stringLikeRegexp('AnomalyLambdaDurationAnomaly'),
+                  },
+                },
+              ]),
+            },
+          },
+        },
+      );
+
+      expect(
+        Object.values(deploymentGroups)[0].Properties.AlarmConfiguration.Alarms,
+      ).toHaveLength(6);
     });
   });
 });
@@ -1,190 +1,359 @@
 import * as cdk from 'aws-cdk-lib';
-import { Duration, RemovalPolicy } from 'aws-cdk-lib';
+import { Annotations, Duration, type RemovalPolicy } from 'aws-cdk-lib';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
-import * as actions from 'aws-cdk-lib/aws-cloudwatch-actions';
-import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import type * as kms from 'aws-cdk-lib/aws-kms';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as nodeLambda from 'aws-cdk-lib/aws-lambda-nodejs';
-import type * as sns from 'aws-cdk-lib/aws-sns';
-import { Construct } from 'constructs';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import type { Construct } from 'constructs';
+import { Stage } from '../../types';
+import {
+  generateResourceName,
+  getLogRetentionFromStage,
+  getRemovalPolicyFromStage,
+} from '../../utils';
+import type { IdempotencyTable } from '../idempotency-table';
+import {
+  ProgressiveFunction,
+  type ProgressiveFunctionOptions,
+} from '../progressive-function';
 
 /**
- * Configuration properties for the ProgressiveLambda construct.
+ * AWS account that publishes the public Powertools for AWS Lambda (TypeScript) layer.
+ */
+const POWERTOOLS_LAYER_ACCOUNT = '094274105915';
+
+/**
+ * Opt-in Powertools for AWS Lambda (TypeScript) configuration.
  *
- * Extends NodejsFunctionProps to inherit all standard Lambda function configuration options.
+ * @example
+ * ```typescript
+ * powertools: {
+ *   layer: 38, // version of the public AWSLambdaPowertoolsTypeScriptV2 layer
+ *   idempotencyTable,
+ * }
+ * ```
  */
-export interface ProgressiveLambdaProps extends nodeLambda.NodejsFunctionProps {
+export interface ProgressiveLambdaPowertools {
   /**
-   * Whether to create CloudWatch dashboard widgets for monitoring.
+   * Log level exposed as `POWERTOOLS_LOG_LEVEL`.
    *
-   * When enabled, creates three widgets:
-   * - Success metric single value widget
-   * - Error metric single value widget
-   * - Alarm status widget
-   *
-   * @default false
+   * @example 'DEBUG', 'INFO', 'WARN', 'ERROR'
+   * @default - 'INFO' for staging and prod, 'DEBUG' for every other stage
    */
-  createWidget?: boolean;
+  logLevel?: string;
 
   /**
-   * The deployment stage name (e.g., 'dev', 'staging', 'prod').
+   * Powertools layer to attach to the function.
    *
-   * Used for:
-   * - Lambda alias name
-   * - CloudWatch alarm descriptions
-   * - Resource naming and tagging
+   * Pass a version number to use the public `AWSLambdaPowertoolsTypeScriptV2` layer in the
+   * function's region, or your own layer. When set, `@aws-lambda-powertools/*` is excluded
+   * from bundling so the layer's copy is used at runtime.
    *
-   * @example 'prod', 'dev', 'staging'
+   * @default - no layer, Powertools is bundled with the handler
    */
-  stageName: string;
+  layer?: lambda.ILayerVersion | number;
 
   /**
-   * The CodeDeploy application that manages this Lambda function's deployments.
+   * Idempotency table used by the Powertools idempotency utility.
+   *
+   * Its name is exposed as `IDEMPOTENCY_TABLE_NAME` and the function is granted
+   * read/write access to it.
    *
-   * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/applications.html | CodeDeploy Applications}
+   * @default - no idempotency table
    */
-  application: codeDeploy.LambdaApplication;
+  idempotencyTable?: IdempotencyTable;
+}
 
+/**
+ * Fallback alarm on ERROR lines written to the function's log group.
+ */
+export interface ProgressiveLambdaErrorLogAlarm {
   /**
-   * The deployment configuration defining how traffic shifts during deployments.
-   *
-   * Common options:
-   * - `LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE` - Gradual linear shift
-   * - `LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES` - Canary deployment
-   * - `LambdaDeploymentConfig.ALL_AT_ONCE` - Blue/green deployment
+   * Number of matching log lines within one minute that triggers the alarm.
    *
-   * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/deployment-configurations.html | Deployment Configurations}
+   * @default 5
    */
-  deploymentConfig: codeDeploy.ILambdaDeploymentConfig;
+  threshold?: number;
 
   /**
-   * Whether CloudWatch alarms should trigger actions when breached.
+   * Pattern selecting the log lines to count.
    *
-   * When `false`, alarms are created but won't send notifications or trigger auto-rollbacks.
-   * Useful for testing or monitoring-only scenarios.
-   *
-   * @default true
+   * @default - JSON log lines whose `level` is `ERROR`
    */
-  alarmEnabled: boolean;
+  filterPattern?: logs.IFilterPattern;
+}
 
+/**
+ * Log group configuration for the function.
+ *
+ * @example
+ * ```typescript
+ * logging: {
+ *   encryptionKey: logsKey,
+ *   errorLogAlarm: { threshold: 1 },
+ * }
+ * ```
+ */
+export interface ProgressiveLambdaLogging {
   /**
-   * SNS topic for alarm notifications.
+   * How long log events are kept.
    *
-   * @remarks
-   * **Security Note**: For compliance with AwsSolutions-SNS3, ensure your SNS topic
-   * enforces SSL by adding a topic policy that denies non-HTTPS requests.
-   *
-   * @example
-   * ```typescript
-   * const topic = new sns.Topic(this, 'AlarmTopic');
-   * topic.addToResourcePolicy(new iam.PolicyStatement({
-   *   effect: iam.Effect.DENY,
-   *   principals: [new iam.AnyPrincipal()],
-   *   actions: ['sns:Publish'],
-   *   resources: [topic.topicArn],
-   *   conditions: {
-   *     Bool: { 'aws:SecureTransport': 'false' }
-   *   }
-   * }));
-   * ```
+   * @default - the standard `logRetention` prop when set, otherwise selected from
+   * `stageName` using {@link getLogRetentionFromStage}
    */
-  snsTopic: sns.Topic;
+  retention?: logs.RetentionDays;
 
   /**
-   * CloudWatch namespace for custom metrics.
+   * What happens to the log group when it is removed from the stack.
    *
-   * Groups related metrics together for organisation and filtering.
-   * Should follow a hierarchical naming convention.
-   *
-   * @example 'MyApp/Lambda', 'ECommerce/OrderProcessing'
+   * @default - selected from `stageName` using {@link getRemovalPolicyFromStage}
    */
-  namespace: string;
+  removalPolicy?: RemovalPolicy;
 
   /**
-   * Service name dimension for CloudWatch metrics.
-   *
-   * Used to differentiate metrics from different services within the same namespace.
-   * Appears as a dimension in CloudWatch metrics and alarms.
+   * KMS key used to encrypt log events. The CloudWatch Logs service is granted use of the key.
    *
-   * @example 'OrderProcessor', 'UserAuthenticator'
+   * @default - log events are encrypted with a key owned by CloudWatch Logs
    */
-  serviceName: string;
+  encryptionKey?: kms.IKey;
 
   /**
-   * Name of the custom metric that tracks successful operations.
+   * Opt-in metric filter turning ERROR log lines into a custom metric, with an alarm that
+   * takes part in deployment rollback.
    *
-   * This metric should be published by your Lambda function code to indicate
-   * successful processing or operations.
+   * The metric is published to `namespace` as `${id}-ErrorLogs`. As it counts every line
+   * in the function's log group rather than only traffic served through the alias, it is a
+   * fallback for handlers that log failures without publishing the custom error metric.
    *
-   * @example 'SuccessfulOrders', 'ProcessedEvents'
-   * @default '${id}-SuccessOperation'
+   * @default - no metric filter or alarm
+   */
+  errorLogAlarm?: ProgressiveLambdaErrorLogAlarm;
+}
+
+/**
+ * An outbound rule on the security group generated for a function placed in a VPC.
+ *
+ * @example
+ * ```typescript
+ * // PostgreSQL in the database subnets
+ * { peer: ec2.Peer.ipv4('10.0.16.0/20'), port: ec2.Port.tcp(5432) }
+ *
+ * // Redis behind its own security group
+ * { peer: cacheSecurityGroup, port: ec2.Port.tcp(6379), description: 'Redis' }
+ * ```
+ */
+export interface ProgressiveLambdaEgressRule {
+  /**
+   * Destination of the traffic: a CIDR range (e.g. `ec2.Peer.ipv4()`) or a peer security group.
    */
-  metricSuccessName?: string;
+  peer: ec2.IPeer;
 
   /**
-   * Display title for the success metric widget.
-   *
-   * Human-readable title shown in CloudWatch dashboards and widgets.
-   * Should clearly describe what the metric represents.
-   *
-   * @example 'Successful Order Processing', 'Events Processed Successfully'
-   * @default '${id} - Success Operation'
+   * Port or port range the traffic is allowed on.
    */
-  metricSuccessNameTitle?: string;
+  port: ec2.Port;
 
   /**
-   * Name of the custom metric that tracks failed operations.
-   *
-   * This metric should be published by your Lambda function code to indicate
-   * failures or errors. Used by the CloudWatch alarm for deployment monitoring.
+   * Description of the rule.
    *
-   * @example 'FailedOrders', 'ProcessingErrors'
+   * @default - derived from the peer and port
    */
-  metricErrorName: string;
+  description?: string;
+}
 
+/**
+ * Configuration properties for the ProgressiveLambda construct.
+ *
+ * Extends NodejsFunctionProps to inherit all standard Lambda function configuration options,
+ * and {@link ProgressiveFunctionOptions} for the progressive deployment, monitoring and
+ * alerting options.
+ */
+export interface ProgressiveLambdaProps
+  extends nodeLambda.NodejsFunctionProps,
+    ProgressiveFunctionOptions {
   /**
-   * Display title for the error metric widget.
+   * Opt-in Powertools for AWS Lambda wiring.
    *
-   * Human-readable title shown in CloudWatch dashboards and widgets.
-   * Should clearly describe what the error metric represents.
+   * Sets `POWERTOOLS_SERVICE_NAME` from `serviceName` and `POWERTOOLS_METRICS_NAMESPACE`
+   * from `namespace`, so metrics published with the Powertools `Metrics` utility carry the
+   * `service` dimension the construct's alarms and widgets read. Also sets
+   * `POWERTOOLS_LOG_LEVEL` from `stageName`. Values in `environment` take precedence.
    *
-   * @example 'Failed Order Processing', 'Processing Errors'
-   * @default '${id} - Error Operation'
+   * @default - no Powertools configuration
    */
-  metricErrorNameTitle?: string;
+  powertools?: ProgressiveLambdaPowertools;
 
   /**
-   * AWS region where the Lambda function and associated resources are deployed.
+   * Configuration for the log group created for the function.
    *
-   * Used for CloudWatch metric configurations and cross-region references.
-   * Should match the region where the construct is deployed.
+   * The construct creates an explicit log group with stage-based retention and removal
+   * policy, and the function writes structured JSON logs to it. The standard `logRetention`
+   * prop sets the retention of that log group. When `logGroup` is provided, only
+   * `errorLogAlarm` applies, using the given log group.
    *
-   * @example 'us-east-1', 'eu-west-1', 'ap-southeast-2'
+   * @default - stage-based retention and removal policy, no KMS key or metric filter
    */
-  region: string;
+  logging?: ProgressiveLambdaLogging;
 
   /**
-   * Optional configuration overrides for the CloudWatch alarm.
+   * Outbound traffic allowed from the security group generated when `vpc` is set.
    *
-   * Allows customization of alarm properties such as threshold, evaluation periods,
-   * and missing data treatment. Merges with sensible defaults provided by the construct.
+   * When the function is placed in a VPC without `securityGroups`, the construct creates a
+   * security group named `<stage>-<id>-sg` that allows no inbound traffic and only these
+   * outbound rules. Ignored when `securityGroups` is provided.
    *
-   * @example
-   * ```typescript
-   * alarmConfiguration: {
-   *   threshold: 5, // Trigger alarm on 5 errors instead of default 10
-   *   evaluationPeriods: 2, // Require 2 consecutive periods to trigger
-   *   treatMissingData: cloudwatch.TreatMissingData.BREACHING, // Change missing data handling
-   * }
-   * ```
+   * @throws {Error} When `allowAllOutbound` is also set for the generated security group
+   * @default - HTTPS (443) to any IPv4 address, for AWS service endpoints
    */
-  alarmConfiguration?: {
-    // Trigger alarm when 10 or more errors occur in the evaluation period
-    threshold?: number;
-    // Single evaluation period enables fast rollback response
-    evaluationPeriods?: number;
-    // Don't trigger alarm on missing data to avoid false positives during low traffic
-    treatMissingData?: cloudwatch.TreatMissingData;
+  egressRules?: ProgressiveLambdaEgressRule[];
+}
+
+/**
+ * Creates the least-privilege security group for a function placed in a VPC, and warns
+ * when the selected subnets are public.
+ *
+ * @param scope - The construct scope
+ * @param id - The construct identifier used for naming
+ * @param props - The ProgressiveLambda properties, with `vpc` set
+ * @returns Function props to merge over the user configuration
+ *
+ * @throws {Error} When `allowAllOutbound` is set without `securityGroups`
+ */
+function getVpcProps(
+  scope: Construct,
+  id: string,
+  props: ProgressiveLambdaProps & { vpc: ec2.IVpc },
+): Partial<nodeLambda.NodejsFunctionProps> {
+  if (props.vpc.selectSubnets(props.vpcSubnets).hasPublic) {
+    Annotations.of(scope).addWarningV2(
+      '@leighton-digital/cloud-blocks:progressiveLambdaPublicSubnet',
+      `${id} is placed in a public subnet. Lambda functions cannot use a public IP address; select private subnets with a NAT gateway or VPC endpoints instead.`,
+    );
+  }
+
+  if (props.securityGroups) {
+    return {};
+  }
+
+  // Lambda only accepts allowAllOutbound without securityGroups, which the generated group sets
+  if (props.allowAllOutbound !== undefined) {
+    throw new Error(
+      `${id} cannot set allowAllOutbound with the generated security group; list the outbound traffic in egressRules, or pass securityGroups`,
+    );
+  }
+
+  const securityGroup = new ec2.SecurityGroup(scope, `${id}SecurityGroup`, {
+    vpc: props.vpc,
+    securityGroupName: generateResourceName({
+      stage: props.stageName,
+      service: id,
+      resource: 'sg',
+    }),
+    description: `${props.stageName} ${id} Lambda function security group`,
+    allowAllOutbound: false,
+  });
+
+  const egressRules = props.egressRules ?? [
+    {
+      peer: ec2.Peer.anyIpv4(),
+      port: ec2.Port.tcp(443),
+      description: 'HTTPS to AWS service endpoints',
+    },
+  ];
+
+  for (const { peer, port, description } of egressRules) {
+    securityGroup.addEgressRule(peer, port, description);
+  }
+
+  return { securityGroups: [securityGroup] };
+}
+
+/**
+ * Creates the explicit log group the function writes to.
+ *
+ * @param scope - The construct scope
+ * @param id - The construct identifier used for naming
+ * @param props - The ProgressiveLambda properties
+ * @returns A log group with stage-based retention and removal policy
+ */
+function createLogGroup(
+  scope: Construct,
+  id: string,
+  props: ProgressiveLambdaProps,
+): logs.LogGroup {
+  const { retention, removalPolicy, encryptionKey } = props.logging ?? {};
+
+  // CloudWatch Logs must be able to use the key to encrypt and decrypt log events
+  encryptionKey?.grantEncryptDecrypt(
+    new iam.ServicePrincipal(
+      `logs.${cdk.Stack.of(scope).region}.amazonaws.com`,
+    ),
+  );
+
+  return new logs.LogGroup(scope, `${id}LogGroup`, {
+    retention:
+      retention ??
+      props.logRetention ??
+      getLogRetentionFromStage(props.stageName),
+    removalPolicy: removalPolicy ?? getRemovalPolicyFromStage(props.stageName),
+    encryptionKey,
+  });
+}
+
+/**
+ * Derives the Powertools environment, layer and bundling settings for a function.
+ *
+ * @param scope - The scope used to import the public Powertools layer
+ * @param props - The ProgressiveLambda properties
+ * @returns Function props to merge over the user configuration
+ */
+function getPowertoolsProps(
+  scope: Construct,
+  props: ProgressiveLambdaProps,
+): Partial<nodeLambda.NodejsFunctionProps> {
+  const { logLevel, layer, idempotencyTable } = props.powertools ?? {};
+
+  const isLongLivedStage = [Stage.Prod, Stage.Staging].includes(
+    props.stageName.toLowerCase().trim() as Stage,
+  );
+
+  const environment: Record<string, string> = {
+    POWERTOOLS_SERVICE_NAME: props.serviceName,
+    POWERTOOLS_METRICS_NAMESPACE: props.namespace,
+    POWERTOOLS_LOG_LEVEL: logLevel ?? (isLongLivedStage ? 'INFO' : 'DEBUG'),
+    ...(idempotencyTable && {
+      IDEMPOTENCY_TABLE_NAME: idempotencyTable.table.tableName,
+    }),
+    ...props.environment,
+  };
+
+  if (layer === undefined) {
+    return { environment };
+  }
+
+  const powertoolsLayer =
+    typeof layer === 'number'
+      ? lambda.LayerVersion.fromLayerVersionArn(
+          scope,
+          'PowertoolsLayer',
+          `arn:aws:lambda:${cdk.Stack.of(scope).region}:${POWERTOOLS_LAYER_ACCOUNT}:layer:AWSLambdaPowertoolsTypeScriptV2:${layer}`,
+        )
+      : layer;
+
+  return {
+    environment,
+    layers: [...(props.layers ?? []), powertoolsLayer],
+    bundling: {
+      ...props.bundling,
+      // Use the layer's copy of Powertools rather than bundling it
+      externalModules: [
+        ...(props.bundling?.externalModules ?? ['@aws-sdk/*']),
+        '@aws-lambda-powertools/*',
+      ],
+    },
   };
 }
 
@@ -205,16 +374,29 @@ export interface ProgressiveLambdaProps extends nodeLambda.NodejsFunctionProps {
  * - Creates a Lambda alias for traffic management
  * - Integrates with CodeDeploy for controlled traffic shifting
  * - Supports various deployment strategies (linear, canary, blue/green)
+ * - Selects the deployment strategy from `stageName` when none is given
+ * - Optional pre-traffic and post-traffic validation hooks
+ * - Optional function URL on the stage alias, so direct callers follow the traffic shift
+ * - Event source helpers that bind SQS and stream sources to the alias, with rollback alarms
  *
  * ### Monitoring & Alerting
  * - CloudWatch alarm based on custom error metrics
- * - Automatic rollback when error threshold is breached
+ * - Alias-scoped alarms on native `AWS/Lambda` Errors, Throttles and p99 Duration
+ * - Automatic rollback when any alarm threshold is breached
  * - SNS notifications for deployment events
+ * - Creates a stage-named CodeDeploy application and encrypted alarm topic when none are given
  * - Optional dashboard widgets for real-time monitoring
+ * - Explicit JSON-format log group with stage-based retention, optional KMS encryption
+ *   and an optional ERROR log line alarm
+ *
+ * ### Performance
+ * - Optional provisioned concurrency on the stage alias
+ * - Optional target tracking and scheduled scaling of provisioned concurrency
  *
  * ### Security & Compliance
  * - Uses latest Node.js runtime by default (AwsSolutions-L1)
  * - X-Ray tracing enabled for request tracking
+ * - Least-privilege, stage-named security group when placed in a VPC
  * - Follows AWS Well-Architected Framework principles
  * - CDK Nag compliant with documented exceptions
  *
@@ -242,6 +424,20 @@ export interface ProgressiveLambdaProps extends nodeLambda.NodejsFunctionProps {
  * });
  * ```
  *
+ * ### Minimal Usage
+ * ```typescript
+ * // Application and alarm topic are created and named from the stage
+ * const lambda = new ProgressiveLambda(this, 'ProcessorFunction', {
+ *   entry: 'src/handlers/processor.ts',
+ *   stageName: 'prod',
+ *   alarmEnabled: true,
+ *   namespace: 'ECommerce',
+ *   serviceName: 'OrderProcessor',
+ *   metricErrorName: 'ProcessingErrors',
+ *   region: 'us-east-1'
+ * });
+ * ```
+ *
  * ### With Dashboard Widgets
  * ```typescript
  * const lambda = new ProgressiveLambda(this, 'ProcessorFunction', {
@@ -307,6 +503,10 @@ export interface ProgressiveLambdaProps extends nodeLambda.NodejsFunctionProps {
  * - **Missing Data**: Treated as NOT_BREACHING to avoid false alarms
  * - **Actions**: SNS notification and CodeDeploy rollback
  *
+ * In addition, alias-scoped alarms are created on the built-in `AWS/Lambda` metrics
+ * (5 Errors, 5 Throttles, or p99 Duration at 80% of the timeout, within 1 minute) so
+ * that a handler which crashes before publishing its custom metric still rolls back.
+ *
  * @see {@link https://docs.aws.amazon.com/codedeploy/latest/userguide/applications-create-lambda.html | CodeDeploy Lambda Applications}
  * @see {@link https://docs.aws.amazon.com/lambda/latest/dg/lambda-x-ray.html | Lambda X-Ray Tracing}
  * @see {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/working_with_metrics.html | CloudWatch Custom Metrics}
@@ -314,66 +514,23 @@ export interface ProgressiveLambdaProps extends nodeLambda.NodejsFunctionProps {
  * @remarks
  * **Security Considerations:**
  * - Uses latest Node.js runtime by default (AwsSolutions-L1 compliance)
- * - Requires user-provided SNS topic to enforce SSL policies (AwsSolutions-SNS3)
+ * - Creates an SSL-enforced, KMS-encrypted SNS topic when none is provided (AwsSolutions-SNS2/SNS3);
+ *   user-provided topics must enforce SSL themselves
  * - Uses AWS managed policies for Lambda execution (AwsSolutions-IAM4 - acceptable for standard roles)
  * - X-Ray tracing requires wildcard IAM permissions (AwsSolutions-IAM5 - acceptable for tracing)
  */
-export class ProgressiveLambda extends Construct {
+export class ProgressiveLambda extends ProgressiveFunction<nodeLambda.NodejsFunction> {
   /**
-   * The underlying Lambda function.
+   * Log group the function writes to.
    *
-   * Provides access to the NodejsFunction for additional configuration,
-   * permissions, or integration with other AWS services.
+   * Either the `logGroup` passed in props or the log group created by the construct.
    */
-  public readonly lambda: nodeLambda.NodejsFunction;
+  public readonly logGroup: logs.ILogGroup;
 
   /**
-   * Lambda alias for traffic management during deployments.
-   *
-   * Points to the current version and is used by CodeDeploy to shift traffic
-   * between versions during progressive deployments.
-   */
-  public readonly alias: lambda.Alias;
-
-  /**
-   * CloudWatch alarm that monitors error metrics.
-   *
-   * Triggers when error count exceeds threshold, causing CodeDeploy to
-   * automatically rollback the deployment to the previous version.
+   * Security group generated for the function (when `vpc` is set without `securityGroups`).
    */
-  public readonly alarm: cloudwatch.Alarm;
-
-  /**
-   * CodeDeploy deployment group managing progressive rollouts.
-   *
-   * Orchestrates traffic shifting between Lambda versions based on the
-   * configured deployment strategy and alarm status.
-   */
-  public readonly deploymentGroup: codeDeploy.LambdaDeploymentGroup;
-
-  /**
-   * CloudWatch dashboard widgets for monitoring (when enabled).
-   *
-   * Contains three widgets when `createWidget` is true:
-   * 1. Success metric single value widget
-   * 2. Error metric single value widget
-   * 3. Alarm status widget
-   *
-   * Add to dashboards using: `dashboard.addWidgets(...lambda.widgets)`
-   */
-  public readonly widgets: cloudwatch.ConcreteWidget[] = [];
-
-  /** @internal CodeDeploy application reference for deployment group creation. */
-  private readonly application: codeDeploy.LambdaApplication;
-
-  /** @internal Deployment configuration reference for progressive rollout strategy. */
-  private readonly deploymentConfig: codeDeploy.ILambdaDeploymentConfig;
-
-  private defaultAlarmConfig = {
-    threshold: 10,
-    evaluationPeriods: 1,
-    treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
-  };
+  public readonly securityGroup?: ec2.ISecurityGroup;
 
   /**
    * Creates a new ProgressiveLambda construct.
@@ -404,119 +561,78 @@ export class ProgressiveLambda extends Construct {
    * ```
    */
   constructor(scope: Construct, id: string, props: ProgressiveLambdaProps) {
-    super(scope, id);
-
-    // Extract widget creation flag for cleaner conditional logic
-    const createWidget = !!props?.createWidget;
-
-    // Store CodeDeploy references for deployment group creation
-    this.application = props.application;
-    this.deploymentConfig = props.deploymentConfig;
-
-    // Configure Lambda function with secure defaults
-    const lambdaProps = {
-      // Security: Use latest Node.js runtime for patches and features (AwsSolutions-L1)
-      runtime: lambda.Runtime.NODEJS_24_X,
-      // Observability: Enable X-Ray tracing for request tracking and debugging
-      tracing: lambda.Tracing.ACTIVE,
-      // Performance: Set reasonable defaults if not provided by user
-      timeout: cdk.Duration.seconds(30),
-      memorySize: 1024,
-      // User configuration takes precedence over defaults
+    super(scope, id, {
       ...props,
-    };
-
-    // Create the Lambda function with merged configuration
-    this.lambda = new nodeLambda.NodejsFunction(this, id, lambdaProps);
-
-    // Create Lambda alias for traffic management during deployments
-    // The alias provides a stable endpoint that CodeDeploy can shift traffic between versions
-    this.alias = new lambda.Alias(this, `${id}Alias`, {
-      aliasName: props.stageName,
-      version: this.lambda.currentVersion,
+      // Create the Lambda function with secure defaults merged with user configuration
+      lambdaFunction: (functionScope, functionId, functionProps) =>
+        new nodeLambda.NodejsFunction(functionScope, functionId, {
+          // Security: Use latest Node.js runtime for patches and features (AwsSolutions-L1)
+          runtime: lambda.Runtime.NODEJS_24_X,
+          // Observability: Enable X-Ray tracing for request tracking and debugging
+          tracing: lambda.Tracing.ACTIVE,
+          // Performance: Set reasonable defaults if not provided by user
+          timeout: cdk.Duration.seconds(30),
+          memorySize: 1024,
+          // Observability: Structured logs in an explicit, stage-retained log group
+          loggingFormat: lambda.LoggingFormat.JSON,
+          logGroup:
+            props.logGroup ?? createLogGroup(functionScope, functionId, props),
+          // User configuration takes precedence over defaults
+          ...props,
+          // logRetention cannot be combined with logGroup; it sets the created group's retention
+          ...(!props.logGroup && { logRetention: undefined }),
+          ...functionProps,
+          ...(props.powertools && getPowertoolsProps(functionScope, props)),
+          ...(props.vpc &&
+            getVpcProps(functionScope, functionId, {
+              ...props,
+              vpc: props.vpc,
+            })),
+        }),
     });
 
-    // Configure CloudWatch alarm for error monitoring and automatic rollbacks
-    this.alarm = new cloudwatch.Alarm(this, `${id}Failure`, {
-      alarmDescription: `${props.stageName} - ${props.namespace}/${props.metricErrorName} deployment errors = 10 for ${id}`,
-      actionsEnabled: props.alarmEnabled,
-      metric: new cloudwatch.Metric({
-        metricName: props.metricErrorName,
-        namespace: props.namespace,
-        statistic: cloudwatch.Stats.SUM,
-        dimensionsMap: {
-          service: props.serviceName,
-        },
-        // Monitor errors over 1-minute periods for quick detection
-        period: Duration.minutes(1),
-      }),
-      comparisonOperator:
-        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
-      ...this.defaultAlarmConfig,
-      ...props.alarmConfiguration,
-    });
+    if (props.vpc && !props.securityGroups) {
+      this.securityGroup = this.lambda.connections.securityGroups[0];
+    }
 
-    // Connect alarm to SNS topic for notifications
-    this.alarm.addAlarmAction(new actions.SnsAction(props.snsTopic));
-    // Allow CloudFormation to delete alarm during stack teardown
-    this.alarm.applyRemovalPolicy(RemovalPolicy.DESTROY);
-
-    // Create CodeDeploy deployment group for progressive rollout management
-    this.deploymentGroup = new codeDeploy.LambdaDeploymentGroup(
-      this,
-      `${id}CanaryDeployment`,
-      {
-        alias: this.alias,
-        deploymentConfig: this.deploymentConfig,
-        // Alarm will trigger automatic rollback if breached during deployment
-        alarms: [this.alarm],
-        application: this.application,
-      },
-    );
+    // Allow the Powertools idempotency utility to manage its records
+    props.powertools?.idempotencyTable?.table.grantReadWriteData(this.lambda);
+
+    this.logGroup = this.lambda.logGroup;
+
+    // Count ERROR log lines as a fallback signal for deployment rollback
+    if (props.logging?.errorLogAlarm) {
+      const { threshold = 5, filterPattern } = props.logging.errorLogAlarm;
+
+      const metricFilter = new logs.MetricFilter(
+        this,
+        `${id}ErrorLogMetricFilter`,
+        {
+          logGroup: this.logGroup,
+          metricNamespace: props.namespace,
+          metricName: `${id}-ErrorLogs`,
+          filterPattern:
+            filterPattern ??
+            logs.FilterPattern.stringValue('$.level', '=', 'ERROR'),
+          metricValue: '1',
+        },
+      );
 
-    // Optionally create CloudWatch dashboard widgets for monitoring
-    if (createWidget) {
-      this.widgets.push(
-        // Success metric widget showing positive operations
-        new cloudwatch.SingleValueWidget({
-          title: props.metricSuccessNameTitle ?? `${id} - Success Operation`,
-          metrics: [
-            new cloudwatch.Metric({
-              namespace: props.namespace,
-              metricName: props.metricSuccessName ?? `${id}-SuccessOperation`,
-              label: props.metricSuccessName ?? `${id} - Success Operation`,
-              region: props.region,
-              dimensionsMap: {
-                service: props.serviceName,
-              },
-              statistic: cloudwatch.Stats.SUM,
-              period: cdk.Duration.minutes(1),
-            }),
-          ],
+      const errorLogAlarm = new cloudwatch.Alarm(this, `${id}ErrorLogs`, {
+        alarmDescription: `${props.stageName} - ERROR log lines >= ${threshold} for ${id}`,
+        actionsEnabled: props.alarmEnabled,
+        metric: metricFilter.metric({
+          statistic: cloudwatch.Stats.SUM,
+          period: Duration.minutes(1),
         }),
-        // Error metric widget showing failures and issues
-        new cloudwatch.SingleValueWidget({
-          title: props.metricErrorNameTitle ?? `${id} - Error Operation`,
-          metrics: [
-            new cloudwatch.Metric({
-              namespace: props.namespace,
-              metricName: props.metricErrorName,
-              label: props.metricErrorName ?? `${id} - Error Operation`,
-              region: props.region,
-              dimensionsMap: {
-                service: props.serviceName,
-              },
-              statistic: cloudwatch.Stats.SUM,
-              period: cdk.Duration.minutes(1),
-            }),
-          ],
-        }),
-        // Alarm status widget showing current alarm state
-        new cloudwatch.AlarmStatusWidget({
-          title: 'Alarms',
-          alarms: [this.alarm],
-        }),
-      );
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        threshold,
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+
+      this.addRollbackAlarm(errorLogAlarm);
     }
   }
 }
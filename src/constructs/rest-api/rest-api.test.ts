@@ -1,9 +1,22 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import * as cdk from 'aws-cdk-lib';
 import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
 import * as apigw from 'aws-cdk-lib/aws-apigateway';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import type * as monitoring from 'cdk-monitoring-constructs';
 import { AwsSolutionsChecks, NagSuppressions } from 'cdk-nag';
-import { RestApi } from './rest-api';
+import { CustomStack } from '../custom-stack';
+import { ProgressiveLambda } from '../progressive-lambda';
+import { RestApi, RestApiAuthorizationType } from './rest-api';
 
 describe('RestApi', () => {
   let stack: cdk.Stack;
@@ -68,7 +81,7 @@ describe('RestApi', () => {
       const template = Template.fromStack(stack);
 
       template.hasResourceProperties('AWS::Logs::LogGroup', {
-        RetentionInDays: 1,
+        RetentionInDays: 7,
       });
     });
 
@@ -505,8 +518,9 @@ describe('RestApi', () => {
 
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties('AWS::Logs::LogGroup', {
-        RetentionInDays: 1,
+      template.hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 365 },
+        DeletionPolicy: 'Retain',
       });
     });
   });
@@ -568,7 +582,7 @@ describe('RestApi', () => {
       });
     });
 
-    it('configures log retention for cost optimization', () => {
+    it('derives access log retention and removal from the stage', () => {
       restApi = new RestApi(stack, 'TestApi', {
         stageName: 'test',
         description: 'Test API',
@@ -578,9 +592,120 @@ describe('RestApi', () => {
 
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties('AWS::Logs::LogGroup', {
-        RetentionInDays: 1,
+      template.hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 7 },
+        DeletionPolicy: 'Delete',
+      });
+    });
+
+    it('retains prod access logs for a year', () => {
+      restApi = new RestApi(stack, 'TestApi', {
+        stageName: 'prod',
+        description: 'Test API',
+        deploy: true,
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.accessLogGroup).toBeDefined();
+
+      const template = Template.fromStack(stack);
+
+      template.hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 365 },
+        DeletionPolicy: 'Retain',
+        UpdateReplacePolicy: 'Retain',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Stage', {
+        AccessLogSetting: {
+          DestinationArn: stack.resolve(restApi.accessLogGroup?.logGroupArn),
+        },
+      });
+    });
+
+    it('overrides access log retention and removal policy', () => {
+      restApi = new RestApi(stack, 'TestApi', {
+        stageName: 'prod',
+        description: 'Test API',
+        deploy: true,
+        accessLogging: {
+          retention: logs.RetentionDays.ONE_MONTH,
+          removalPolicy: cdk.RemovalPolicy.DESTROY,
+        },
+      });
+      addDummyMethod(restApi);
+
+      Template.fromStack(stack).hasResource('AWS::Logs::LogGroup', {
+        Properties: { RetentionInDays: 30 },
+        DeletionPolicy: 'Delete',
+      });
+    });
+
+    it('writes structured JSON access logs by default', () => {
+      restApi = new RestApi(stack, 'TestApi', {
+        stageName: 'test',
+        description: 'Test API',
+        deploy: true,
+      });
+      addDummyMethod(restApi);
+
+      const stage = Template.fromStack(stack).findResources(
+        'AWS::ApiGateway::Stage',
+      );
+      const format = JSON.parse(
+        Object.values(stage)[0].Properties.AccessLogSetting.Format,
+      );
+
+      expect(format).toEqual(
+        expect.objectContaining({
+          requestId: '$context.requestId',
+          caller: '$context.identity.caller',
+          sourceIp: '$context.identity.sourceIp',
+          status: '$context.status',
+          responseLatency: '$context.responseLatency',
+          integrationLatency: '$context.integrationLatency',
+          integrationStatus: '$context.integrationStatus',
+          integrationError: '$context.integrationErrorMessage',
+        }),
+      );
+    });
+
+    it('uses a given access log format and destination', () => {
+      const destination = new logs.LogGroup(stack, 'SharedLogs');
+
+      restApi = new RestApi(stack, 'TestApi', {
+        stageName: 'test',
+        description: 'Test API',
+        deploy: true,
+        deployOptions: {
+          accessLogDestination: new apigw.LogGroupLogDestination(destination),
+          accessLogFormat: apigw.AccessLogFormat.custom('$context.requestId'),
+        },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.accessLogGroup).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs('AWS::Logs::LogGroup', 1);
+      template.hasResourceProperties('AWS::ApiGateway::Stage', {
+        AccessLogSetting: {
+          DestinationArn: stack.resolve(destination.logGroupArn),
+          Format: '$context.requestId',
+        },
+      });
+    });
+
+    it('does not create an access log group when the API is not deployed', () => {
+      restApi = new RestApi(stack, 'TestApi', {
+        stageName: 'test',
+        description: 'Test API',
+        deploy: false,
       });
+      addDummyMethod(restApi);
+
+      expect(restApi.accessLogGroup).toBeUndefined();
+      Template.fromStack(stack).resourceCountIs('AWS::Logs::LogGroup', 0);
     });
   });
 
@@ -654,6 +779,1775 @@ describe('RestApi', () => {
     });
   });
 
+  describe('Route registration', () => {
+    const createFunction = (id: string) =>
+      new lambda.Function(stack, id, {
+        runtime: lambda.Runtime.NODEJS_24_X,
+        handler: 'index.handler',
+        code: lambda.Code.fromInline('exports.handler = async () => ({});'),
+      });
+
+    beforeEach(() => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+      });
+    });
+
+    it('creates nested resources for the route path', () => {
+      restApi.addRoute('GET /orders/{id}/items', createFunction('GetItems'));
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::Resource', 3);
+      template.hasResourceProperties('AWS::ApiGateway::Resource', {
+        PathPart: '{id}',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'GET',
+        Integration: Match.objectLike({
+          Type: 'AWS_PROXY',
+          IntegrationHttpMethod: 'POST',
+        }),
+      });
+    });
+
+    it('reuses existing resources for sibling routes', () => {
+      const handler = createFunction('OrdersHandler');
+
+      restApi.addRoute('GET /orders', handler);
+      restApi.addRoute('POST /orders', handler);
+      restApi.addRoute('GET /orders/{id}', handler);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::Resource', 2);
+      template.resourceCountIs('AWS::ApiGateway::Method', 3);
+    });
+
+    it('integrates a ProgressiveLambda through its stage alias', () => {
+      const progressiveLambda = new ProgressiveLambda(stack, 'GetOrder', {
+        stageName: 'dev',
+        alarmEnabled: true,
+        namespace: 'Orders',
+        serviceName: 'Orders',
+        metricErrorName: 'OrderErrors',
+        region: 'eu-west-1',
+        code: lambda.Code.fromInline('exports.handler = async () => ({});'),
+        handler: 'index.handler',
+      });
+
+      restApi.addRoute('GET /orders/{id}', progressiveLambda);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::Lambda::Permission', {
+        Action: 'lambda:InvokeFunction',
+        Principal: 'apigateway.amazonaws.com',
+        FunctionName: { Ref: Match.stringLikeRegexp('GetOrderAlias') },
+      });
+      template.resourcePropertiesCountIs(
+        'AWS::Lambda::Permission',
+        { Principal: 'apigateway.amazonaws.com' },
+        2, // Deployed stage and test-invoke
+      );
+    });
+
+    it('integrates any other function as given', () => {
+      const handler = createFunction('DeleteOrder');
+
+      restApi.addRoute('DELETE /orders/{id}', handler);
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::Lambda::Permission',
+        {
+          Principal: 'apigateway.amazonaws.com',
+          FunctionName: stack.resolve(handler.functionArn),
+        },
+      );
+    });
+
+    it('passes method options through to the method', () => {
+      const method = restApi.addRoute(
+        'post /orders/',
+        createFunction('CreateOrder'),
+        {
+          operationName: 'CreateOrder',
+          apiKeyRequired: true,
+        },
+      );
+
+      expect(method.httpMethod).toBe('POST');
+      expect(method.resource.path).toBe('/orders');
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::ApiGateway::Method',
+        {
+          HttpMethod: 'POST',
+          OperationName: 'CreateOrder',
+          ApiKeyRequired: true,
+        },
+      );
+    });
+
+    it('registers routes on the root resource', () => {
+      const method = restApi.addRoute('GET /', createFunction('Root'));
+
+      expect(method.resource).toBe(restApi.api.root);
+    });
+
+    it('rejects duplicate method and path pairs', () => {
+      restApi.addRoute('GET /orders/{id}', createFunction('GetOrder'));
+
+      expect(() =>
+        restApi.addRoute('GET /orders/{id}/', createFunction('GetOrderAgain')),
+      ).toThrow("Route 'GET /orders/{id}' is already registered on OrdersApi");
+    });
+
+    it('rejects routes added directly to the underlying API', () => {
+      restApi.api.root
+        .addResource('health')
+        .addMethod('GET', new apigw.MockIntegration());
+
+      expect(() =>
+        restApi.addRoute('GET /health', createFunction('Health')),
+      ).toThrow("Route 'GET /health' is already registered on OrdersApi");
+    });
+
+    it.each([
+      'GET',
+      '/orders',
+      'GET orders',
+      'FETCH /orders',
+    ])('rejects the malformed route %p', (route) => {
+      expect(() => restApi.addRoute(route, createFunction('Bad'))).toThrow(
+        `Route '${route}' must be an HTTP method followed by a path, e.g. 'GET /orders/{id}'`,
+      );
+    });
+  });
+
+  describe('OpenAPI import and export', () => {
+    let specDir: string;
+
+    const ordersSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Orders', version: '2.1.0' },
+      paths: {
+        '/orders': {
+          get: {
+            operationId: 'listOrders',
+            parameters: [
+              { name: 'status', in: 'query', required: false },
+              { name: 'x-tenant-id', in: 'header', required: true },
+            ],
+            responses: {
+              '200': {
+                description: 'Orders',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/Order' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          post: {
+            operationId: 'createOrder',
+            requestBody: { $ref: '#/components/requestBodies/NewOrder' },
+            responses: {
+              '201': {
+                description: 'Created',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Order' },
+                  },
+                },
+              },
+              default: { description: 'Error' },
+            },
+          },
+        },
+        '/orders/{id}': {
+          parameters: [{ $ref: '#/components/parameters/OrderId' }],
+          get: {
+            operationId: 'getOrder',
+            responses: {
+              '200': {
+                description: 'Order',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Order' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        parameters: {
+          OrderId: { name: 'id', in: 'path', required: true },
+        },
+        requestBodies: {
+          NewOrder: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['items'],
+                  properties: {
+                    items: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/Item' },
+                    },
+                    note: { type: 'string', nullable: true, example: 'Gift' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        schemas: {
+          Item: {
+            type: 'object',
+            properties: { code: { type: 'string' } },
+          },
+          Order: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', readOnly: true },
+              items: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/Item' },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const writeSpec = (spec: object): string => {
+      const specPath = path.join(specDir, 'orders.json');
+      fs.writeFileSync(specPath, JSON.stringify(spec));
+      return specPath;
+    };
+
+    const createFunction = (id: string) =>
+      new lambda.Function(stack, id, {
+        runtime: lambda.Runtime.NODEJS_24_X,
+        handler: 'index.handler',
+        code: lambda.Code.fromInline('exports.handler = async () => ({});'),
+      });
+
+    const createHandlers = () => ({
+      listOrders: createFunction('ListOrders'),
+      createOrder: createFunction('CreateOrder'),
+      getOrder: createFunction('GetOrder'),
+    });
+
+    beforeEach(() => {
+      specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rest-api-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(specDir, { recursive: true, force: true });
+    });
+
+    it('creates a method for each operation integrated with its handler', () => {
+      const handlers = createHandlers();
+
+      new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: { specPath: writeSpec(ordersSpec), handlers },
+      });
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::Method', 3);
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'GET',
+        OperationName: 'getOrder',
+        RequestParameters: { 'method.request.path.id': true },
+      });
+      template.hasResourceProperties('AWS::Lambda::Permission', {
+        Principal: 'apigateway.amazonaws.com',
+        FunctionName: stack.resolve(handlers.createOrder.functionArn),
+      });
+    });
+
+    it('maps query and header parameters to request parameters', () => {
+      new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: {
+          specPath: writeSpec(ordersSpec),
+          handlers: createHandlers(),
+        },
+      });
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::ApiGateway::Method',
+        {
+          OperationName: 'listOrders',
+          RequestParameters: {
+            'method.request.querystring.status': false,
+            'method.request.header.x-tenant-id': true,
+          },
+        },
+      );
+    });
+
+    it('creates models from JSON schemas, shared between references', () => {
+      new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: {
+          specPath: writeSpec(ordersSpec),
+          handlers: createHandlers(),
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      // Order, the inline createOrder request and the inline listOrders response
+      template.resourceCountIs('AWS::ApiGateway::Model', 3);
+      template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'Order',
+        ContentType: 'application/json',
+        Schema: {
+          $schema: 'http://json-schema.org/draft-04/schema#',
+          title: 'Order',
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { code: { type: 'string' } },
+              },
+            },
+          },
+        },
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'createOrderRequest',
+        Schema: Match.objectLike({
+          required: ['items'],
+          properties: Match.objectLike({
+            note: { type: ['string', 'null'] },
+          }),
+        }),
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        OperationName: 'createOrder',
+        RequestModels: {
+          'application/json': {
+            Ref: Match.stringLikeRegexp('createOrderRequest'),
+          },
+        },
+        MethodResponses: [
+          {
+            StatusCode: '201',
+            ResponseModels: {
+              'application/json': { Ref: Match.stringLikeRegexp('OrderModel') },
+            },
+          },
+        ],
+      });
+    });
+
+    it('shares request validators between operations', () => {
+      new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: {
+          specPath: writeSpec(ordersSpec),
+          handlers: createHandlers(),
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::RequestValidator', 2);
+      template.hasResourceProperties('AWS::ApiGateway::RequestValidator', {
+        Name: 'validate-body',
+        ValidateRequestBody: true,
+        ValidateRequestParameters: false,
+      });
+      template.hasResourceProperties('AWS::ApiGateway::RequestValidator', {
+        Name: 'validate-params',
+        ValidateRequestBody: false,
+        ValidateRequestParameters: true,
+      });
+      template.resourcePropertiesCountIs(
+        'AWS::ApiGateway::Method',
+        {
+          RequestValidatorId: {
+            Ref: Match.stringLikeRegexp('OrdersApiValidateParams'),
+          },
+        },
+        2,
+      );
+    });
+
+    it('throws when an operation has no handler', () => {
+      const { getOrder: _, ...handlers } = createHandlers();
+
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            openApi: { specPath: writeSpec(ordersSpec), handlers },
+          }),
+      ).toThrow(
+        "OpenAPI operation 'GET /orders/{id}' needs an operationId with a handler",
+      );
+    });
+
+    it('throws when a handler has no operation', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            openApi: {
+              specPath: writeSpec(ordersSpec),
+              handlers: {
+                ...createHandlers(),
+                deleteOrder: createFunction('DeleteOrder'),
+              },
+            },
+          }),
+      ).toThrow('Handlers deleteOrder do not match an operationId');
+    });
+
+    it('rejects documents that are not OpenAPI 3', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            openApi: {
+              specPath: writeSpec({ ...ordersSpec, openapi: '2.0' }),
+              handlers: createHandlers(),
+            },
+          }),
+      ).toThrow('openapi must be an OpenAPI 3 document.');
+    });
+
+    it('rejects recursive schemas', () => {
+      const recursiveSpec = {
+        ...ordersSpec,
+        components: {
+          ...ordersSpec.components,
+          schemas: {
+            ...ordersSpec.components.schemas,
+            Item: {
+              type: 'object',
+              properties: {
+                children: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Item' },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            openApi: {
+              specPath: writeSpec(recursiveSpec),
+              handlers: createHandlers(),
+            },
+          }),
+      ).toThrow(
+        'Recursive OpenAPI schema #/components/schemas/Item cannot be used in an API Gateway model',
+      );
+    });
+
+    it('exports the imported and added routes', () => {
+      const api = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: {
+          specPath: writeSpec(ordersSpec),
+          handlers: createHandlers(),
+        },
+      });
+      api.addRoute('DELETE /orders/{id}', createFunction('DeleteOrder'), {
+        operationName: 'deleteOrder',
+      });
+
+      const exported = JSON.parse(JSON.stringify(api.toOpenApiDocument()));
+      expect(exported.openapi).toBe('3.0.3');
+      expect(exported.info).toEqual({ title: 'Orders', version: '2.1.0' });
+      expect(Object.keys(exported.paths)).toEqual(['/orders', '/orders/{id}']);
+      expect(Object.keys(exported.paths['/orders/{id}'])).toEqual([
+        'get',
+        'delete',
+      ]);
+      expect(exported.paths['/orders/{id}'].get.parameters).toEqual([
+        { name: 'id', in: 'path', required: true },
+      ]);
+      expect(exported.paths['/orders/{id}'].delete).toEqual({
+        operationId: 'deleteOrder',
+        parameters: [{ name: 'id', in: 'path', required: true }],
+        responses: { default: { description: 'Lambda proxy response' } },
+      });
+      expect(exported.components.schemas.Order).toBeDefined();
+    });
+
+    it('exports routes added without an imported document', () => {
+      const api = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+      });
+      api.addRoute('ANY /proxy', createFunction('Proxy'));
+
+      const exported = JSON.parse(JSON.stringify(api.toOpenApiDocument()));
+      expect(exported.info).toEqual({
+        title: 'dev-ordersapi-api',
+        version: '1.0.0',
+      });
+      expect(exported.paths['/proxy']).toHaveProperty(
+        'x-amazon-apigateway-any-method',
+      );
+    });
+
+    it('writes the definition into the cloud assembly when the app is synthesised', () => {
+      const app = new cdk.App({ outdir: path.join(specDir, 'cdk.out') });
+      stack = new cdk.Stack(app, 'OrdersStack');
+
+      const api = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: {
+          specPath: writeSpec(ordersSpec),
+          handlers: createHandlers(),
+        },
+        openApiExportPath: 'openapi/orders-api.json',
+      });
+      // Routes added after construction are part of the written definition
+      api.addRoute('DELETE /orders/{id}', createFunction('DeleteOrder'));
+
+      const assembly = app.synth();
+      const exportFile = path.join(
+        assembly.directory,
+        'openapi',
+        'orders-api.json',
+      );
+
+      expect(fs.existsSync(exportFile)).toBe(true);
+      expect(JSON.parse(fs.readFileSync(exportFile, 'utf-8'))).toEqual(
+        JSON.parse(JSON.stringify(api.toOpenApiDocument())),
+      );
+      expect(
+        Object.keys(
+          JSON.parse(fs.readFileSync(exportFile, 'utf-8')).paths[
+            '/orders/{id}'
+          ],
+        ),
+      ).toEqual(['get', 'delete']);
+    });
+
+    it.each([
+      '../orders-api.json',
+      path.join(os.tmpdir(), 'orders-api.json'),
+    ])('throws for an export path outside the cloud assembly: %s', (exportPath) => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            openApiExportPath: exportPath,
+          }),
+      ).toThrow(
+        `openApiExportPath ${exportPath} of OrdersApi must be relative to the cloud assembly directory`,
+      );
+    });
+
+    it('writes nothing outside the cloud assembly when the app is synthesised', () => {
+      const specPath = writeSpec(ordersSpec);
+      const listFiles = () => [
+        ...fs.readdirSync(process.cwd()),
+        ...fs.readdirSync(specDir),
+      ];
+      const filesBefore = listFiles();
+
+      const api = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        openApi: { specPath, handlers: createHandlers() },
+        openApiExportPath: 'orders-api.json',
+      });
+      api.addRoute('DELETE /orders/{id}', createFunction('DeleteOrder'));
+      Template.fromStack(stack);
+
+      expect(listFiles()).toEqual(filesBefore);
+    });
+  });
+
+  describe('Authorisation', () => {
+    let userPool: cognito.UserPool;
+
+    const createFunction = (id: string) =>
+      new lambda.Function(stack, id, {
+        runtime: lambda.Runtime.NODEJS_24_X,
+        handler: 'index.handler',
+        code: lambda.Code.fromInline('exports.handler = async () => ({});'),
+      });
+
+    beforeEach(() => {
+      userPool = new cognito.UserPool(stack, 'UserPool');
+    });
+
+    it('applies the default authoriser to every method except CORS preflight', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        isStagingEnvironment: true,
+        auth: {
+          defaultAuthorizer: {
+            type: RestApiAuthorizationType.CognitoUserPools,
+            userPools: [userPool],
+            authorizationScopes: ['orders/read'],
+          },
+        },
+      });
+      restApi.addRoute('GET /orders', createFunction('ListOrders'));
+      addDummyMethod(restApi);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::ApiGateway::Authorizer', {
+        Type: 'COGNITO_USER_POOLS',
+        IdentitySource: 'method.request.header.Authorization',
+      });
+      const methods = template.findResources('AWS::ApiGateway::Method', {
+        Properties: {
+          AuthorizationType: 'COGNITO_USER_POOLS',
+          AuthorizationScopes: ['orders/read'],
+        },
+      });
+      expect(Object.keys(methods)).toHaveLength(2);
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'OPTIONS',
+        AuthorizationType: 'NONE',
+      });
+    });
+
+    it('lets a route opt out with public', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        auth: {
+          defaultAuthorizer: { type: RestApiAuthorizationType.Iam },
+        },
+      });
+      restApi.addRoute('GET /orders', createFunction('ListOrders'));
+      restApi.addRoute('GET /health', createFunction('Health'), {
+        auth: 'public',
+      });
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::Authorizer', 0);
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'GET',
+        AuthorizationType: 'AWS_IAM',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'GET',
+        AuthorizationType: 'NONE',
+        AuthorizerId: Match.absent(),
+      });
+    });
+
+    it('creates named Lambda authorisers only when a route uses them', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        auth: {
+          defaultAuthorizer: {
+            type: RestApiAuthorizationType.CognitoUserPools,
+            userPools: [userPool],
+          },
+          authorizers: {
+            partners: {
+              type: RestApiAuthorizationType.LambdaRequest,
+              handler: createFunction('PartnerAuthoriser'),
+              resultsCacheTtl: cdk.Duration.seconds(0),
+            },
+            unused: {
+              type: RestApiAuthorizationType.LambdaToken,
+              handler: createFunction('UnusedAuthoriser'),
+            },
+          },
+        },
+      });
+      restApi.addRoute('POST /partners/orders', createFunction('Partner'), {
+        auth: 'partners',
+      });
+      restApi.addRoute('GET /partners/orders', createFunction('PartnerList'), {
+        auth: 'partners',
+      });
+      restApi.addRoute('GET /orders', createFunction('ListOrders'));
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::Authorizer', 2);
+      template.hasResourceProperties('AWS::ApiGateway::Authorizer', {
+        Type: 'REQUEST',
+        IdentitySource: 'method.request.header.Authorization',
+        AuthorizerResultTtlInSeconds: 0,
+      });
+      const methods = template.findResources('AWS::ApiGateway::Method', {
+        Properties: { AuthorizationType: 'CUSTOM' },
+      });
+      expect(Object.keys(methods)).toHaveLength(2);
+    });
+
+    it('invokes a ProgressiveLambda token authoriser through its alias', () => {
+      const authoriser = new ProgressiveLambda(stack, 'Authoriser', {
+        stageName: 'dev',
+        alarmEnabled: true,
+        namespace: 'Orders',
+        serviceName: 'Orders',
+        metricErrorName: 'AuthoriserErrors',
+        region: 'eu-west-1',
+        code: lambda.Code.fromInline('exports.handler = async () => ({});'),
+        handler: 'index.handler',
+      });
+
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        auth: {
+          defaultAuthorizer: {
+            type: RestApiAuthorizationType.LambdaToken,
+            handler: authoriser,
+          },
+        },
+      });
+      restApi.addRoute('GET /orders', createFunction('ListOrders'));
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::ApiGateway::Authorizer', {
+        Type: 'TOKEN',
+      });
+      template.hasResourceProperties('AWS::Lambda::Permission', {
+        Action: 'lambda:InvokeFunction',
+        Principal: 'apigateway.amazonaws.com',
+        FunctionName: { Ref: Match.stringLikeRegexp('AuthoriserAlias') },
+      });
+    });
+
+    it('makes OpenAPI operations with an empty security requirement public', () => {
+      const specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rest-api-auth-'));
+      const specPath = path.join(specDir, 'orders.json');
+      fs.writeFileSync(
+        specPath,
+        JSON.stringify({
+          openapi: '3.0.3',
+          info: { title: 'Orders', version: '1.0.0' },
+          security: [{ cognito: [] }],
+          paths: {
+            '/orders': {
+              get: { operationId: 'listOrders' },
+            },
+            '/health': {
+              get: { operationId: 'health', security: [] },
+            },
+          },
+        }),
+      );
+
+      new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        auth: {
+          defaultAuthorizer: {
+            type: RestApiAuthorizationType.CognitoUserPools,
+            userPools: [userPool],
+          },
+        },
+        openApi: {
+          specPath,
+          handlers: {
+            listOrders: createFunction('ListOrders'),
+            health: createFunction('Health'),
+          },
+        },
+      });
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        OperationName: 'listOrders',
+        AuthorizationType: 'COGNITO_USER_POOLS',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        OperationName: 'health',
+        AuthorizationType: 'NONE',
+      });
+
+      fs.rmSync(specDir, { recursive: true, force: true });
+    });
+
+    it('throws for an authoriser a route names but the API does not define', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        auth: {
+          defaultAuthorizer: { type: RestApiAuthorizationType.Iam },
+        },
+      });
+
+      expect(() =>
+        restApi.addRoute('GET /orders', createFunction('ListOrders'), {
+          auth: 'partners',
+        }),
+      ).toThrow(
+        "Authorizer 'partners' is not defined in the auth.authorizers of OrdersApi",
+      );
+    });
+
+    it.each([
+      [
+        { type: RestApiAuthorizationType.CognitoUserPools },
+        "Authorizer 'default' on OrdersApi needs userPools for CognitoUserPools",
+      ],
+      [
+        { type: RestApiAuthorizationType.LambdaToken },
+        "Authorizer 'default' on OrdersApi needs a handler for LambdaToken",
+      ],
+      [
+        {
+          type: RestApiAuthorizationType.Iam,
+          authorizationScopes: ['orders/read'],
+        },
+        "Authorizer 'default' on OrdersApi can only set authorizationScopes with CognitoUserPools",
+      ],
+    ])('throws for an incomplete default authoriser %#', (defaultAuthorizer, message) => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            auth: { defaultAuthorizer },
+          }),
+      ).toThrow(message);
+    });
+
+    it('reserves the public authoriser name', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            auth: {
+              defaultAuthorizer: { type: RestApiAuthorizationType.Iam },
+              authorizers: {
+                public: { type: RestApiAuthorizationType.Iam },
+              },
+            },
+          }),
+      ).toThrow(
+        "Authorizer name 'public' is reserved for routes without authorisation on OrdersApi",
+      );
+    });
+
+    it('passes the cdk-nag authorisation checks and only suppresses public routes', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        isStagingEnvironment: true,
+        auth: {
+          defaultAuthorizer: {
+            type: RestApiAuthorizationType.CognitoUserPools,
+            userPools: [userPool],
+          },
+          authorizers: {
+            machines: { type: RestApiAuthorizationType.Iam },
+          },
+        },
+      });
+      restApi.addRoute('GET /orders', createFunction('ListOrders'));
+      restApi.addRoute('POST /orders', createFunction('CreateOrder'), {
+        auth: 'machines',
+      });
+      restApi.addRoute('GET /health', createFunction('Health'), {
+        auth: 'public',
+      });
+
+      cdk.Aspects.of(stack).add(new AwsSolutionsChecks({ verbose: true }));
+
+      const annotations = Annotations.fromStack(stack);
+      expect(
+        annotations.findError(
+          '*',
+          Match.stringLikeRegexp('AwsSolutions-APIG4'),
+        ),
+      ).toHaveLength(0);
+      // COG4 only accepts Cognito, so the IAM route is reported rather than suppressed
+      const cognitoErrors = annotations.findError(
+        '*',
+        Match.stringLikeRegexp('AwsSolutions-COG4'),
+      );
+      expect(cognitoErrors).toHaveLength(1);
+      expect(cognitoErrors[0].id).toMatch(/\/orders\/POST\/Resource$/);
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'POST',
+        AuthorizationType: 'AWS_IAM',
+        AuthorizerId: Match.absent(),
+      });
+      template.hasResource('AWS::ApiGateway::Method', {
+        Properties: { HttpMethod: 'GET', AuthorizationType: 'NONE' },
+        Metadata: {
+          cdk_nag: {
+            rules_to_suppress: [
+              Match.objectLike({
+                id: 'AwsSolutions-APIG4',
+                reason: Match.stringLikeRegexp('GET /health'),
+              }),
+              Match.objectLike({ id: 'AwsSolutions-COG4' }),
+            ],
+          },
+        },
+      });
+      expect(
+        Object.values(
+          template.findResources('AWS::ApiGateway::Method', {
+            Properties: { AuthorizationType: Match.not('NONE') },
+          }),
+        ).filter((method) => method.Metadata?.cdk_nag),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe('Usage plans and API keys', () => {
+    it('ties each usage plan to the deployed stage', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        usagePlans: {
+          gold: {
+            description: 'Gold partners',
+            throttle: { rateLimit: 100, burstLimit: 200 },
+            quota: { limit: 1000000, period: apigw.Period.MONTH },
+          },
+          bronze: {
+            throttle: { rateLimit: 5, burstLimit: 10 },
+          },
+        },
+      });
+      addDummyMethod(restApi);
+
+      expect(Object.keys(restApi.usagePlans)).toEqual(['gold', 'bronze']);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::UsagePlan', 2);
+      template.hasResourceProperties('AWS::ApiGateway::UsagePlan', {
+        UsagePlanName: 'dev-ordersapi-plan-gold',
+        Description: 'Gold partners',
+        Throttle: { RateLimit: 100, BurstLimit: 200 },
+        Quota: { Limit: 1000000, Period: 'MONTH' },
+        ApiStages: [
+          {
+            ApiId: { Ref: Match.stringLikeRegexp('OrdersApiApi') },
+            Stage: { Ref: Match.stringLikeRegexp('DeploymentStagedev') },
+          },
+        ],
+      });
+    });
+
+    it('creates an API key for each client on the plan', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+      });
+      addDummyMethod(restApi);
+
+      restApi.addUsagePlan('gold', { apiKeys: ['acme', 'umbrella'] });
+
+      expect(Object.keys(restApi.apiKeys)).toEqual(['acme', 'umbrella']);
+      expect(restApi.apiKeySecrets).toEqual({});
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::ApiKey', 2);
+      template.resourceCountIs('AWS::ApiGateway::UsagePlanKey', 2);
+      template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+      template.hasResourceProperties('AWS::ApiGateway::ApiKey', {
+        Name: 'dev-ordersapi-key-acme',
+        Enabled: true,
+        Value: Match.absent(),
+      });
+    });
+
+    it('generates API key values in Secrets Manager when asked', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'prod',
+        description: 'Orders API',
+        deploy: true,
+        usagePlans: {
+          gold: { apiKeys: ['acme'], storeKeysInSecretsManager: true },
+        },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.apiKeySecrets.acme).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResource('AWS::SecretsManager::Secret', {
+        Properties: {
+          Name: 'prod-ordersapi-key-acme',
+          GenerateSecretString: {
+            PasswordLength: 40,
+            ExcludePunctuation: true,
+          },
+        },
+        DeletionPolicy: 'Retain',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::ApiKey', {
+        Value: {
+          'Fn::Join': Match.arrayWith([
+            Match.arrayWith([
+              { Ref: Match.stringLikeRegexp('OrdersApiGoldAcmeApiKeySecret') },
+            ]),
+          ]),
+        },
+      });
+    });
+
+    it('applies stage default throttling from deployOptions', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        deployOptions: {
+          throttlingRateLimit: 50,
+          throttlingBurstLimit: 100,
+        },
+      });
+      addDummyMethod(restApi);
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::ApiGateway::Stage',
+        {
+          MethodSettings: Match.arrayWith([
+            Match.objectLike({
+              HttpMethod: '*',
+              ResourcePath: '/*',
+              ThrottlingRateLimit: 50,
+              ThrottlingBurstLimit: 100,
+            }),
+          ]),
+        },
+      );
+    });
+
+    it('throws when a client is on more than one plan', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        usagePlans: { gold: { apiKeys: ['acme'] } },
+      });
+
+      expect(() =>
+        restApi.addUsagePlan('silver', { apiKeys: ['acme'] }),
+      ).toThrow(
+        "Client 'acme' already has an API key on OrdersApi; a client can only be on one usage plan",
+      );
+      expect(() => restApi.addUsagePlan('gold', {})).toThrow(
+        "Usage plan 'gold' is already defined on OrdersApi",
+      );
+    });
+
+    it('throws when the API is not deployed', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: false,
+            usagePlans: { gold: {} },
+          }),
+      ).toThrow(
+        "Usage plan 'gold' needs a deployed stage; OrdersApi has deploy set to false",
+      );
+    });
+
+    it('suppresses the secret rotation finding for API key secrets', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        usagePlans: {
+          gold: { apiKeys: ['acme'], storeKeysInSecretsManager: true },
+        },
+      });
+      addDummyMethod(restApi);
+
+      cdk.Aspects.of(stack).add(new AwsSolutionsChecks({ verbose: true }));
+
+      const errors = Annotations.fromStack(stack).findError(
+        '*',
+        Match.stringLikeRegexp('AwsSolutions-SMG4'),
+      );
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('WAF', () => {
+    it('attaches a regional web ACL to the deployed stage', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        waf: { rateLimitPerIp: 500 },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.webAcl).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::WAFv2::WebACL', {
+        Scope: 'REGIONAL',
+        Rules: Match.arrayWith([
+          Match.objectLike({
+            Name: 'RateLimitPerIp',
+            Statement: {
+              RateBasedStatement: { Limit: 500, AggregateKeyType: 'IP' },
+            },
+          }),
+        ]),
+      });
+      template.hasResourceProperties('AWS::WAFv2::WebACLAssociation', {
+        ResourceArn: stack.resolve(restApi.api.deploymentStage.stageArn),
+      });
+      template.resourceCountIs('AWS::WAFv2::LoggingConfiguration', 1);
+    });
+
+    it('satisfies the cdk-nag WAF check without suppressing it', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        waf: {},
+      });
+      addDummyMethod(restApi);
+
+      cdk.Aspects.of(stack).add(new AwsSolutionsChecks({ verbose: true }));
+
+      const errors = Annotations.fromStack(stack).findError(
+        '*',
+        Match.stringLikeRegexp('AwsSolutions-APIG3'),
+      );
+      expect(errors).toHaveLength(0);
+    });
+
+    it('throws when the API is not deployed', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: false,
+            waf: {},
+          }),
+      ).toThrow(
+        'The web ACL for OrdersApi needs a deployed stage; deploy is set to false',
+      );
+    });
+  });
+
+  describe('Custom domain', () => {
+    let zone: route53.IHostedZone;
+
+    beforeEach(() => {
+      zone = route53.HostedZone.fromHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1234567890',
+        zoneName: 'example.com',
+      });
+    });
+
+    it('creates a regional domain with a DNS validated certificate and alias', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        customDomain: {
+          domainName: 'api.example.com',
+          hostedZone: zone,
+          basePath: 'v1',
+        },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.domain).toBeDefined();
+      expect(restApi.basePathMapping).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+        DomainName: 'api.example.com',
+        ValidationMethod: 'DNS',
+        DomainValidationOptions: [
+          { DomainName: 'api.example.com', HostedZoneId: 'Z1234567890' },
+        ],
+      });
+      template.hasResourceProperties('AWS::ApiGateway::DomainName', {
+        DomainName: 'api.example.com',
+        EndpointConfiguration: { Types: ['REGIONAL'] },
+        SecurityPolicy: 'TLS_1_2',
+        RegionalCertificateArn: { Ref: Match.stringLikeRegexp('Certificate') },
+      });
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: 'api.example.com.',
+        Type: 'A',
+        HostedZoneId: 'Z1234567890',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::BasePathMapping', {
+        BasePath: 'v1',
+        DomainName: { Ref: Match.stringLikeRegexp('OrdersApiDomainName') },
+        RestApiId: { Ref: Match.stringLikeRegexp('OrdersApiApi') },
+        Stage: { Ref: Match.stringLikeRegexp('DeploymentStagedev') },
+      });
+    });
+
+    it('uses a given certificate', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        customDomain: {
+          domainName: 'api.example.com',
+          hostedZone: zone,
+          certificate: acm.Certificate.fromCertificateArn(
+            stack,
+            'Cert',
+            'arn:aws:acm:eu-west-1:123456789012:certificate/mock',
+          ),
+        },
+      });
+      addDummyMethod(restApi);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::CertificateManager::Certificate', 0);
+      template.hasResourceProperties('AWS::ApiGateway::DomainName', {
+        RegionalCertificateArn:
+          'arn:aws:acm:eu-west-1:123456789012:certificate/mock',
+      });
+      template.hasResourceProperties('AWS::ApiGateway::BasePathMapping', {
+        BasePath: Match.absent(),
+      });
+    });
+
+    it('lets several APIs share one domain under different base paths', () => {
+      const v1 = new RestApi(stack, 'OrdersV1', {
+        stageName: 'dev',
+        description: 'Orders API v1',
+        deploy: true,
+        customDomain: {
+          domainName: 'api.example.com',
+          hostedZone: zone,
+          basePath: '/v1',
+        },
+      });
+      addDummyMethod(v1);
+
+      const v2 = new RestApi(stack, 'OrdersV2', {
+        stageName: 'dev',
+        description: 'Orders API v2',
+        deploy: true,
+        customDomain: { domain: v1.domain, basePath: '/v2/' },
+      });
+      addDummyMethod(v2);
+
+      expect(v2.domain).toBe(v1.domain);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::ApiGateway::DomainName', 1);
+      template.resourceCountIs('AWS::Route53::RecordSet', 1);
+      template.hasResourceProperties('AWS::ApiGateway::BasePathMapping', {
+        BasePath: 'v1',
+        RestApiId: { Ref: Match.stringLikeRegexp('OrdersV1Api') },
+      });
+      template.hasResourceProperties('AWS::ApiGateway::BasePathMapping', {
+        BasePath: 'v2',
+        DomainName: { Ref: Match.stringLikeRegexp('OrdersV1DomainName') },
+        RestApiId: { Ref: Match.stringLikeRegexp('OrdersV2Api') },
+      });
+    });
+
+    it.each([
+      [
+        { domainName: 'api.example.com' },
+        'The custom domain api.example.com for OrdersApi needs a hostedZone for its alias record',
+      ],
+      [
+        {},
+        'The custom domain for OrdersApi must set either domainName or domain',
+      ],
+    ])('throws for incomplete domain options %#', (customDomain, message) => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            customDomain,
+          }),
+      ).toThrow(message);
+    });
+
+    it('throws when both domainName and domain are set', () => {
+      const v1 = new RestApi(stack, 'OrdersV1', {
+        stageName: 'dev',
+        description: 'Orders API v1',
+        deploy: true,
+        customDomain: { domainName: 'api.example.com', hostedZone: zone },
+      });
+      addDummyMethod(v1);
+
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            customDomain: { domainName: 'api.example.com', domain: v1.domain },
+          }),
+      ).toThrow(
+        'The custom domain for OrdersApi must set either domainName or domain',
+      );
+    });
+
+    it('throws when the API is not deployed', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: false,
+            customDomain: { domainName: 'api.example.com', hostedZone: zone },
+          }),
+      ).toThrow(
+        'The custom domain for OrdersApi needs a deployed stage; deploy is set to false',
+      );
+    });
+  });
+
+  describe('Private API', () => {
+    it('creates an execute-api endpoint and restricts the API to it', () => {
+      const vpc = new ec2.Vpc(stack, 'Vpc');
+
+      restApi = new RestApi(stack, 'InternalApi', {
+        stageName: 'dev',
+        description: 'Internal API',
+        deploy: true,
+        privateApi: { vpc },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.vpcEndpoint).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      const endpointId = stack.resolve(restApi.vpcEndpoint?.vpcEndpointId);
+
+      template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+        VpcEndpointType: 'Interface',
+        ServiceName: {
+          'Fn::Join': [
+            '',
+            ['com.amazonaws.', { Ref: 'AWS::Region' }, '.execute-api'],
+          ],
+        },
+        PrivateDnsEnabled: true,
+        VpcId: stack.resolve(vpc.vpcId),
+      });
+      template.hasResourceProperties('AWS::ApiGateway::RestApi', {
+        EndpointConfiguration: {
+          Types: ['PRIVATE'],
+          VpcEndpointIds: [endpointId],
+        },
+        DisableExecuteApiEndpoint: false,
+        Policy: {
+          Statement: [
+            {
+              Effect: 'Allow',
+              Principal: { AWS: '*' },
+              Action: 'execute-api:Invoke',
+              Resource: 'execute-api:/*',
+            },
+            {
+              Effect: 'Deny',
+              Principal: { AWS: '*' },
+              Action: 'execute-api:Invoke',
+              Resource: 'execute-api:/*',
+              Condition: {
+                StringNotEquals: { 'aws:SourceVpce': [endpointId] },
+              },
+            },
+          ],
+        },
+      });
+    });
+
+    it('accepts existing VPC endpoints', () => {
+      restApi = new RestApi(stack, 'InternalApi', {
+        stageName: 'dev',
+        description: 'Internal API',
+        deploy: true,
+        privateApi: {
+          vpcEndpoints: [
+            ec2.InterfaceVpcEndpoint.fromInterfaceVpcEndpointAttributes(
+              stack,
+              'SharedEndpoint',
+              { vpcEndpointId: 'vpce-0123456789abcdef0', port: 443 },
+            ),
+          ],
+        },
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.vpcEndpoint).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::EC2::VPCEndpoint', 0);
+      template.hasResourceProperties('AWS::ApiGateway::RestApi', {
+        EndpointConfiguration: {
+          Types: ['PRIVATE'],
+          VpcEndpointIds: ['vpce-0123456789abcdef0'],
+        },
+        Policy: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Effect: 'Deny',
+              Condition: {
+                StringNotEquals: {
+                  'aws:SourceVpce': ['vpce-0123456789abcdef0'],
+                },
+              },
+            }),
+          ]),
+        },
+      });
+    });
+
+    it('keeps the resource policy statements of a given policy', () => {
+      restApi = new RestApi(stack, 'InternalApi', {
+        stageName: 'dev',
+        description: 'Internal API',
+        deploy: true,
+        policy: new iam.PolicyDocument({
+          statements: [
+            new iam.PolicyStatement({
+              effect: iam.Effect.DENY,
+              principals: [new iam.AnyPrincipal()],
+              actions: ['execute-api:Invoke'],
+              resources: ['execute-api:/*/DELETE/*'],
+            }),
+          ],
+        }),
+        privateApi: {
+          vpcEndpoints: [
+            ec2.InterfaceVpcEndpoint.fromInterfaceVpcEndpointAttributes(
+              stack,
+              'SharedEndpoint',
+              { vpcEndpointId: 'vpce-0123456789abcdef0', port: 443 },
+            ),
+          ],
+        },
+      });
+      addDummyMethod(restApi);
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::ApiGateway::RestApi',
+        {
+          Policy: {
+            Statement: [
+              Match.objectLike({ Resource: 'execute-api:/*/DELETE/*' }),
+              Match.objectLike({ Effect: 'Allow' }),
+              Match.objectLike({ Effect: 'Deny' }),
+            ],
+          },
+        },
+      );
+    });
+
+    it('throws when neither vpc nor vpcEndpoints is set', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'InternalApi', {
+            stageName: 'dev',
+            description: 'Internal API',
+            deploy: true,
+            privateApi: { vpcEndpoints: [] },
+          }),
+      ).toThrow(
+        'The private API InternalApi must set either vpc or vpcEndpoints',
+      );
+    });
+
+    it.each([
+      [
+        { disableExecuteApiEndpoint: true },
+        'The private API InternalApi is only reachable through its execute-api endpoint, so disableExecuteApiEndpoint cannot be true',
+      ],
+      [
+        { customDomain: { domainName: 'internal.example.com' } },
+        'The private API InternalApi cannot use customDomain, which creates a regional domain',
+      ],
+      [
+        { endpointTypes: [apigw.EndpointType.REGIONAL] },
+        'The private API InternalApi sets its own PRIVATE endpoint configuration, so endpointTypes and endpointConfiguration cannot be set',
+      ],
+      [
+        { endpointConfiguration: { types: [apigw.EndpointType.EDGE] } },
+        'The private API InternalApi sets its own PRIVATE endpoint configuration, so endpointTypes and endpointConfiguration cannot be set',
+      ],
+    ])('throws for options a private API cannot use %#', (options, message) => {
+      const vpc = new ec2.Vpc(stack, 'Vpc');
+
+      expect(
+        () =>
+          new RestApi(stack, 'InternalApi', {
+            stageName: 'dev',
+            description: 'Internal API',
+            deploy: true,
+            privateApi: { vpc },
+            ...options,
+          }),
+      ).toThrow(message);
+    });
+  });
+
+  describe('Monitoring', () => {
+    let mockMonitor: jest.Mock;
+    let mockFacade: monitoring.MonitoringFacade;
+
+    beforeEach(() => {
+      mockMonitor = jest.fn();
+      mockFacade = {
+        monitorApiGateway: mockMonitor,
+      } as unknown as monitoring.MonitoringFacade;
+    });
+
+    it('creates no widgets by default', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+      });
+
+      expect(restApi.widgets).toHaveLength(0);
+    });
+
+    it('creates stage widgets that can be added to a CustomStack dashboard', () => {
+      const customStack = new CustomStack(new cdk.App(), 'MonitoredStack', {
+        createDashboard: true,
+      });
+
+      restApi = new RestApi(customStack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        createWidget: true,
+      });
+      addDummyMethod(restApi);
+
+      expect(restApi.widgets).toHaveLength(4);
+      expect(restApi.widgets[0]).toBeInstanceOf(cloudwatch.TextWidget);
+
+      customStack.addWidgets(restApi.widgets);
+
+      const dashboards = Template.fromStack(customStack).findResources(
+        'AWS::CloudWatch::Dashboard',
+      );
+      const body = JSON.stringify(Object.values(dashboards)[0]);
+
+      expect(body).toContain('### OrdersApi (dev)');
+      expect(body).toContain('AWS/ApiGateway');
+      expect(body).toContain('dev-ordersapi-api');
+      expect(body).toContain('100 * clientErrors');
+      expect(body).toContain('100 * serverErrors');
+      expect(body).toContain('p99');
+    });
+
+    it('creates widgets for each monitored route', () => {
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        createWidget: true,
+        monitoredRoutes: ['get /orders/{id}/', 'POST /orders'],
+      });
+
+      expect(restApi.widgets).toHaveLength(12);
+
+      const latency = restApi.widgets[7].toJson()[0];
+
+      expect(latency.properties.title).toBe(
+        'OrdersApi GET /orders/{id} - Latency',
+      );
+      expect(stack.resolve(latency.properties.metrics[0])).toEqual([
+        'AWS/ApiGateway',
+        'Latency',
+        'ApiName',
+        'dev-ordersapi-api',
+        'Method',
+        'GET',
+        'Resource',
+        '/orders/{id}',
+        'Stage',
+        'dev',
+        { label: 'p50', period: 60, stat: 'p50' },
+      ]);
+    });
+
+    it('throws for a monitored route that is not a method and path', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            monitoredRoutes: ['/orders'],
+          }),
+      ).toThrow(
+        "Route '/orders' must be an HTTP method followed by a path, e.g. 'GET /orders/{id}'",
+      );
+    });
+
+    it('registers the stage and monitored routes with the monitoring facade', () => {
+      const alarmConfiguration: monitoring.ApiGatewayMonitoringOptions = {
+        add4XXErrorRateAlarm: {
+          Warning: { maxErrorRate: 5 },
+        },
+        add5XXFaultRateAlarm: {
+          Critical: { maxErrorRate: 1 },
+        },
+        addLatencyP99Alarm: {
+          Warning: { maxLatency: cdk.Duration.seconds(2) },
+        },
+        addLowTpsAlarm: {
+          Warning: { minTps: 1 },
+        },
+      };
+
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        monitoringFacade: mockFacade,
+        alarmConfiguration,
+        monitoredRoutes: ['GET /orders/{id}', 'GET /'],
+      });
+
+      expect(mockMonitor).toHaveBeenCalledTimes(3);
+      expect(mockMonitor).toHaveBeenNthCalledWith(1, {
+        ...alarmConfiguration,
+        api: restApi.api,
+        apiStage: 'dev',
+      });
+      expect(mockMonitor).toHaveBeenNthCalledWith(2, {
+        ...alarmConfiguration,
+        api: restApi.api,
+        apiStage: 'dev',
+        apiResource: '/orders/{id}',
+        apiMethod: 'GET',
+        alarmFriendlyName: 'dev-ordersapi-api-GETOrdersId',
+        humanReadableName: 'OrdersApi GET /orders/{id}',
+      });
+      expect(mockMonitor).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({
+          apiResource: '/',
+          alarmFriendlyName: 'dev-ordersapi-api-GETRoot',
+        }),
+      );
+    });
+
+    it('applies alarmConfiguration overrides to the stage and monitored routes', () => {
+      const alarmConfiguration: monitoring.ApiGatewayMonitoringOptions = {
+        alarmFriendlyName: 'orders',
+        humanReadableName: 'Orders',
+        add5XXFaultRateAlarm: {
+          Critical: { maxErrorRate: 1 },
+        },
+      };
+
+      restApi = new RestApi(stack, 'OrdersApi', {
+        stageName: 'dev',
+        description: 'Orders API',
+        deploy: true,
+        monitoringFacade: mockFacade,
+        alarmConfiguration,
+        monitoredRoutes: ['GET /orders/{id}'],
+      });
+
+      expect(mockMonitor).toHaveBeenCalledTimes(2);
+      expect(mockMonitor).toHaveBeenNthCalledWith(1, {
+        ...alarmConfiguration,
+        api: restApi.api,
+        apiStage: 'dev',
+      });
+      expect(mockMonitor).toHaveBeenNthCalledWith(2, {
+        ...alarmConfiguration,
+        api: restApi.api,
+        apiStage: 'dev',
+        apiResource: '/orders/{id}',
+        apiMethod: 'GET',
+        alarmFriendlyName: 'orders-GETOrdersId',
+        humanReadableName: 'Orders GET /orders/{id}',
+      });
+    });
+
+    it('throws when alarmConfiguration is provided without a monitoring facade', () => {
+      expect(
+        () =>
+          new RestApi(stack, 'OrdersApi', {
+            stageName: 'dev',
+            description: 'Orders API',
+            deploy: true,
+            alarmConfiguration: {},
+          }),
+      ).toThrow(
+        'alarmConfiguration is provided but monitoringFacade is undefined; cannot configure alarms without a monitoring facade',
+      );
+    });
+  });
+
   describe('AWS Solutions compliance', () => {
     it('has no unsuppressed AwsSolutions findings', () => {
       restApi = new RestApi(stack, 'TestApi', {
@@ -1,8 +1,456 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import * as cdk from 'aws-cdk-lib';
 import * as apigw from 'aws-cdk-lib/aws-apigateway';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import type * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import type * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import type * as monitoring from 'cdk-monitoring-constructs';
+import type { ApiGatewayMonitoringOptions } from 'cdk-monitoring-constructs';
+import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
-import { generateResourceName } from '../../utils';
+import { z } from 'zod';
+import {
+  generateResourceName,
+  getLogRetentionFromStage,
+  getRemovalPolicyFromStage,
+} from '../../utils';
+import { ProgressiveFunction } from '../progressive-function';
+import { WebAcl, type WebAclOptions, WebAclScope } from '../web-acl';
+
+const openApiDocumentSchema = z.looseObject({
+  openapi: z.string().regex(/^3\./, 'must be an OpenAPI 3 document.'),
+  info: z.looseObject({
+    title: z.string(),
+    version: z.string(),
+  }),
+  paths: z.record(z.string(), z.record(z.string(), z.unknown())),
+  security: z.array(z.record(z.string(), z.array(z.string()))).optional(),
+  components: z
+    .looseObject({
+      schemas: z
+        .record(z.string(), z.record(z.string(), z.unknown()))
+        .optional(),
+    })
+    .optional(),
+});
+
+const openApiOperationSchema = z.looseObject({
+  operationId: z.string().optional(),
+  parameters: z.array(z.record(z.string(), z.unknown())).optional(),
+  requestBody: z.record(z.string(), z.unknown()).optional(),
+  responses: z.record(z.string(), z.unknown()).optional(),
+  security: z.array(z.record(z.string(), z.array(z.string()))).optional(),
+});
+
+const openApiParameterSchema = z.looseObject({
+  name: z.string(),
+  in: z.enum(['path', 'query', 'header', 'cookie']),
+  required: z.boolean().optional(),
+});
+
+const openApiContentSchema = z.looseObject({
+  required: z.boolean().optional(),
+  content: z
+    .record(
+      z.string(),
+      z.looseObject({
+        schema: z.record(z.string(), z.unknown()).optional(),
+      }),
+    )
+    .optional(),
+});
+
+type OpenApiDocument = z.infer<typeof openApiDocumentSchema>;
+type OpenApiOperation = z.infer<typeof openApiOperationSchema>;
+type OpenApiParameter = z.infer<typeof openApiParameterSchema>;
+type OpenApiObject = Record<string, unknown>;
+
+/** Keywords that OpenAPI adds to JSON Schema, which API Gateway models do not accept. */
+const openApiOnlyKeywords = [
+  'deprecated',
+  'discriminator',
+  'example',
+  'examples',
+  'externalDocs',
+  'nullable',
+  'readOnly',
+  'writeOnly',
+  'xml',
+];
+
+/**
+ * The default access log format: one JSON object per request with the request ID, caller,
+ * latency, status and integration error fields.
+ */
+const structuredAccessLogFormat = apigw.AccessLogFormat.custom(
+  JSON.stringify({
+    requestId: apigw.AccessLogField.contextRequestId(),
+    extendedRequestId: apigw.AccessLogField.contextExtendedRequestId(),
+    requestTime: apigw.AccessLogField.contextRequestTime(),
+    httpMethod: apigw.AccessLogField.contextHttpMethod(),
+    resourcePath: apigw.AccessLogField.contextResourcePath(),
+    protocol: apigw.AccessLogField.contextProtocol(),
+    sourceIp: apigw.AccessLogField.contextIdentitySourceIp(),
+    userAgent: apigw.AccessLogField.contextIdentityUserAgent(),
+    caller: apigw.AccessLogField.contextIdentityCaller(),
+    user: apigw.AccessLogField.contextIdentityUser(),
+    status: apigw.AccessLogField.contextStatus(),
+    responseLength: apigw.AccessLogField.contextResponseLength(),
+    responseLatency: apigw.AccessLogField.contextResponseLatency(),
+    integrationStatus: apigw.AccessLogField.contextIntegrationStatus(),
+    integrationLatency: apigw.AccessLogField.contextIntegrationLatency(),
+    integrationError: apigw.AccessLogField.contextIntegrationErrorMessage(),
+    errorMessage: apigw.AccessLogField.contextErrorMessage(),
+  }),
+);
+
+/**
+ * Converts a user supplied name such as `gold-tier` to `GoldTier` for use in construct ids.
+ *
+ * @param name - The name
+ * @returns The name in PascalCase, without separators
+ */
+const toPascalCase = (name: string): string =>
+  name
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+/**
+ * A function that handles a route registered with {@link RestApi.addRoute}.
+ *
+ * A `ProgressiveLambda` or `ProgressiveFunction` is integrated through its stage alias,
+ * so API traffic follows the CodeDeploy traffic shift. Any other function (including an
+ * alias or version) is integrated as given.
+ */
+export type RestApiRouteHandler = ProgressiveFunction | lambda.IFunction;
+
+/**
+ * How callers of a {@link RestApi} method are authorised.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum RestApiAuthorizationType {
+  /** A JWT issued by one or more Cognito user pools. */
+  CognitoUserPools = 'CognitoUserPools',
+  /** A Lambda authoriser given the bearer token from a single header. */
+  LambdaToken = 'LambdaToken',
+  /** A Lambda authoriser given the headers, query string and context it needs. */
+  LambdaRequest = 'LambdaRequest',
+  /** A SigV4 signed request, authorised by the caller's IAM policies. */
+  Iam = 'Iam',
+}
+
+/**
+ * An authoriser preset for a {@link RestApi}.
+ *
+ * @example
+ * ```typescript
+ * // Cognito user pool
+ * { type: RestApiAuthorizationType.CognitoUserPools, userPools: [userPool] }
+ *
+ * // Lambda token authoriser
+ * { type: RestApiAuthorizationType.LambdaToken, handler: authoriserFunction }
+ * ```
+ */
+export interface RestApiAuthorizer {
+  /**
+   * How callers are authorised.
+   */
+  type: RestApiAuthorizationType;
+
+  /**
+   * The user pools whose tokens are accepted. Required for `CognitoUserPools`.
+   */
+  userPools?: cognito.IUserPool[];
+
+  /**
+   * OAuth scopes, one of which the access token must contain. Only used with `CognitoUserPools`.
+   *
+   * @defaultValue Any valid token from the user pools is accepted
+   */
+  authorizationScopes?: string[];
+
+  /**
+   * The authoriser function. Required for `LambdaToken` and `LambdaRequest`; a
+   * ProgressiveLambda is invoked through its stage alias.
+   */
+  handler?: RestApiRouteHandler;
+
+  /**
+   * Where the caller's identity is read from, e.g. `apigw.IdentitySource.header('Authorization')`.
+   * `CognitoUserPools` and `LambdaToken` take a single source.
+   *
+   * @defaultValue The `Authorization` header
+   */
+  identitySources?: string[];
+
+  /**
+   * How long API Gateway caches the authoriser's result.
+   *
+   * @defaultValue Duration.minutes(5)
+   */
+  resultsCacheTtl?: cdk.Duration;
+}
+
+/**
+ * Authorisation for a {@link RestApi}.
+ *
+ * @example
+ * ```typescript
+ * auth: {
+ *   defaultAuthorizer: {
+ *     type: RestApiAuthorizationType.CognitoUserPools,
+ *     userPools: [userPool],
+ *   },
+ *   authorizers: {
+ *     partners: {
+ *       type: RestApiAuthorizationType.LambdaToken,
+ *       handler: partnerAuthoriser,
+ *     },
+ *   },
+ * }
+ * ```
+ */
+export interface RestApiAuth {
+  /**
+   * The authoriser applied to every method that does not choose another one.
+   * At least one method must use it.
+   */
+  defaultAuthorizer: RestApiAuthorizer;
+
+  /**
+   * Further authorisers that routes can choose by name with {@link RestApiRouteOptions.auth}.
+   * The name `public` is reserved for routes without authorisation.
+   *
+   * @defaultValue No named authorisers
+   */
+  authorizers?: Record<string, RestApiAuthorizer>;
+}
+
+/**
+ * Options for a route registered with {@link RestApi.addRoute}.
+ */
+export interface RestApiRouteOptions extends apigw.MethodOptions {
+  /**
+   * Options for the Lambda proxy integration.
+   *
+   * @defaultValue A proxy integration with a permission scoped to this method
+   */
+  integrationOptions?: apigw.LambdaIntegrationOptions;
+
+  /**
+   * The name of an authoriser in {@link RestApiAuth.authorizers}, or `'public'` for a
+   * route that callers can use without authorisation.
+   *
+   * @defaultValue The default authoriser, when {@link RestApiProps.auth} is set
+   */
+  auth?: string;
+}
+
+/**
+ * A usage plan limiting the clients whose API keys it holds.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   throttle: { rateLimit: 50, burstLimit: 100 },
+ *   quota: { limit: 100_000, period: apigw.Period.MONTH },
+ *   apiKeys: ['acme', 'umbrella'],
+ *   storeKeysInSecretsManager: true,
+ * }
+ * ```
+ */
+export interface RestApiUsagePlan {
+  /**
+   * A description of the plan.
+   *
+   * @defaultValue No description
+   */
+  description?: string;
+
+  /**
+   * The steady-state request rate and burst each client is allowed.
+   *
+   * @defaultValue The stage's throttling applies
+   */
+  throttle?: apigw.ThrottleSettings;
+
+  /**
+   * The number of requests each client can make in a day, week or month.
+   *
+   * @defaultValue No quota
+   */
+  quota?: apigw.QuotaSettings;
+
+  /**
+   * Names of the clients to create an API key for on this plan. A client can only be on one plan.
+   *
+   * @defaultValue No API keys
+   */
+  apiKeys?: string[];
+
+  /**
+   * Whether each API key value is generated in a Secrets Manager secret, so it can be read
+   * and shared with the client without the API Gateway console.
+   *
+   * @defaultValue false - API Gateway generates the key values
+   */
+  storeKeysInSecretsManager?: boolean;
+}
+
+/**
+ * Access log group configuration for a {@link RestApi}.
+ *
+ * @example
+ * ```typescript
+ * accessLogging: {
+ *   retention: logs.RetentionDays.ONE_MONTH,
+ *   removalPolicy: cdk.RemovalPolicy.DESTROY,
+ * }
+ * ```
+ */
+export interface RestApiAccessLogging {
+  /**
+   * How long access log events are kept.
+   *
+   * @defaultValue Selected from `stageName` using {@link getLogRetentionFromStage}
+   */
+  retention?: logs.RetentionDays;
+
+  /**
+   * What happens to the access log group when it is removed from the stack.
+   *
+   * @defaultValue Selected from `stageName` using {@link getRemovalPolicyFromStage}
+   */
+  removalPolicy?: cdk.RemovalPolicy;
+}
+
+/**
+ * A regional custom domain for a {@link RestApi}, created by the API or shared with another one.
+ *
+ * @example
+ * ```typescript
+ * // Create the domain and map this API under /v1
+ * customDomain: {
+ *   domainName: 'api.example.com',
+ *   hostedZone: zone,
+ *   basePath: 'v1',
+ * }
+ *
+ * // Map another API under /v2 on the same domain
+ * customDomain: {
+ *   domain: ordersV1.domain,
+ *   basePath: 'v2',
+ * }
+ * ```
+ */
+export interface RestApiCustomDomain {
+  /**
+   * The domain name to create, e.g. `api.example.com`. Set this or {@link domain}.
+   */
+  domainName?: string;
+
+  /**
+   * The hosted zone the alias record (and the certificate's DNS validation records) are created in.
+   * Required with {@link domainName}.
+   */
+  hostedZone?: route53.IHostedZone;
+
+  /**
+   * A certificate for {@link domainName} in the API's region.
+   *
+   * @defaultValue A certificate validated through DNS records in {@link hostedZone}
+   */
+  certificate?: acm.ICertificate;
+
+  /**
+   * A domain created by another `RestApi` (its `domain` property) to map this API onto.
+   * Set this or {@link domainName}.
+   */
+  domain?: apigw.IDomainName;
+
+  /**
+   * The path this API is served under on the domain, e.g. `v1` for `https://api.example.com/v1`.
+   *
+   * @defaultValue The API is served from the root of the domain
+   */
+  basePath?: string;
+}
+
+/**
+ * The VPC endpoints a private {@link RestApi} is reachable through, either created in a VPC
+ * or shared with other private APIs.
+ *
+ * @example
+ * ```typescript
+ * // Create an execute-api endpoint in the VPC
+ * privateApi: {
+ *   vpc,
+ *   subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+ * }
+ *
+ * // Use endpoints that already exist
+ * privateApi: {
+ *   vpcEndpoints: [ordersApi.vpcEndpoint],
+ * }
+ * ```
+ */
+export interface RestApiPrivateApi {
+  /**
+   * The VPC to create an `execute-api` interface endpoint in. Set this or {@link vpcEndpoints}.
+   */
+  vpc?: ec2.IVpc;
+
+  /**
+   * The subnets the created endpoint is placed in.
+   *
+   * @defaultValue The VPC's private subnets, one per availability zone
+   */
+  subnets?: ec2.SubnetSelection;
+
+  /**
+   * Existing `execute-api` interface endpoints to accept requests from. Set this or {@link vpc}.
+   */
+  vpcEndpoints?: ec2.IInterfaceVpcEndpoint[];
+}
+
+/**
+ * An OpenAPI 3 document to build the API from.
+ *
+ * @example
+ * ```typescript
+ * openApi: {
+ *   specPath: path.join(__dirname, '../contracts/orders.json'),
+ *   handlers: {
+ *     listOrders: listOrdersFunction,
+ *     getOrder: getOrderLambda, // ProgressiveLambda, integrated with its alias
+ *   },
+ * }
+ * ```
+ */
+export interface RestApiOpenApi {
+  /**
+   * Path to an OpenAPI 3 document in JSON format.
+   */
+  specPath: string;
+
+  /**
+   * Functions handling each operation, keyed by `operationId`.
+   *
+   * Every operation in the document needs a handler, and every handler needs an operation.
+   */
+  handlers: Record<string, RestApiRouteHandler>;
+}
 
 /**
  * Properties for configuring a RestApi construct.
@@ -85,6 +533,158 @@ export interface RestApiProps
    * @defaultValue false
    */
   isStagingEnvironment?: boolean;
+
+  /**
+   * An OpenAPI 3 document to build resources, methods, models and request validators from.
+   *
+   * Each operation is registered with {@link RestApi.addRoute} and integrated with the
+   * handler supplied for its `operationId`. JSON request bodies and responses get models,
+   * and required parameters and bodies get request validators.
+   *
+   * @throws {Error} When the document is invalid, or an operation and handler do not match
+   * @defaultValue No routes are created from a document
+   */
+  openApi?: RestApiOpenApi;
+
+  /**
+   * Path of a JSON file, relative to the cloud assembly directory (e.g. `cdk.out`), that the
+   * definition from {@link RestApi.toOpenApiDocument} is written to when the app is synthesised.
+   *
+   * The file is written once, with the stack templates, so clients can be generated from
+   * exactly what is deployed.
+   *
+   * @throws {Error} When the path is absolute or outside the cloud assembly directory
+   * @defaultValue The definition is not written
+   */
+  openApiExportPath?: string;
+
+  /**
+   * Authorisation for the API's methods.
+   *
+   * The default authoriser applies to every method, including those added directly to
+   * {@link RestApi.api}; routes can choose a named authoriser or opt out with `'public'`.
+   * CORS preflight methods stay unauthorised. Imported OpenAPI operations with
+   * `security: []` are public, and those whose security requirement names an authoriser use it.
+   *
+   * @throws {Error} When an authoriser is missing its user pools or handler
+   * @defaultValue Methods are not authorised
+   */
+  auth?: RestApiAuth;
+
+  /**
+   * Usage plans for the deployed stage, by name, each with API keys for its clients.
+   *
+   * Methods only count against a plan when they require an API key (`apiKeyRequired`).
+   * Default throttling for every client is set with `deployOptions.throttlingRateLimit`
+   * and `deployOptions.throttlingBurstLimit`.
+   *
+   * @throws {Error} When the API is not deployed, or a client is on more than one plan
+   * @defaultValue No usage plans
+   */
+  usagePlans?: Record<string, RestApiUsagePlan>;
+
+  /**
+   * A WAF web ACL to create and attach to the deployed stage, with AWS managed rule
+   * presets, a per-IP rate limit, IP allow and deny lists, metrics and logging.
+   *
+   * Use this for APIs called directly; an API behind `ApiCloudFrontDistribution` is
+   * usually protected at the distribution with its `waf` option instead.
+   *
+   * @throws {Error} When the API is not deployed
+   * @defaultValue No web ACL is attached
+   */
+  waf?: WebAclOptions;
+
+  /**
+   * A regional custom domain serving the deployed stage, so the API can be reached without
+   * `ApiCloudFrontDistribution` while the execute-api endpoint stays disabled.
+   *
+   * Several APIs can share one domain under different base paths: the first creates it
+   * with `domainName`, and the others map onto its `domain`.
+   *
+   * @throws {Error} When the API is not deployed, or the domain options are incomplete
+   * @defaultValue No custom domain
+   */
+  customDomain?: RestApiCustomDomain;
+
+  /**
+   * Retention and removal policy of the access log group created for the deployed stage.
+   *
+   * Access logs use a structured JSON format by default; set `deployOptions.accessLogFormat`
+   * to change it, or `deployOptions.accessLogDestination` to log somewhere else.
+   *
+   * @defaultValue Retention and removal policy are selected from `stageName`
+   */
+  accessLogging?: RestApiAccessLogging;
+
+  /**
+   * Makes the API private, reachable only through `execute-api` interface VPC endpoints.
+   *
+   * The endpoint type is set to `PRIVATE`, a resource policy denies requests that do not
+   * come through the endpoints (`aws:SourceVpce`), and the execute-api endpoint is enabled
+   * because it is the only way to reach a private API.
+   *
+   * @throws {Error} When both or neither of `vpc` and `vpcEndpoints` are set, or when
+   * combined with `disableExecuteApiEndpoint: true`, `customDomain`, `endpointTypes` or
+   * `endpointConfiguration`
+   * @defaultValue The API is regional
+   */
+  privateApi?: RestApiPrivateApi;
+
+  /**
+   * Whether to create CloudWatch dashboard widgets for the deployed stage, and for each
+   * of {@link monitoredRoutes}.
+   *
+   * Creates the following widgets for the stage and each route:
+   * - Text header widget
+   * - Request count graph widget
+   * - 4XX and 5XX error rate graph widget
+   * - p50/p90/p99 latency graph widget
+   *
+   * Add to dashboards using: `stack.addWidgets(api.widgets)`
+   *
+   * @defaultValue false
+   */
+  createWidget?: boolean;
+
+  /**
+   * Routes, such as `'GET /orders/{id}'`, to monitor individually as well as the whole stage.
+   *
+   * Each route gets its own widgets with {@link createWidget}, and is registered with the
+   * {@link monitoringFacade} with the same {@link alarmConfiguration} as the stage.
+   * Per-route metrics rely on the stage's detailed metrics (`deployOptions.metricsEnabled`).
+   *
+   * @throws {Error} When a route is not an HTTP method followed by a path
+   * @defaultValue Only the stage is monitored
+   */
+  monitoredRoutes?: string[];
+
+  /**
+   * Optional monitoring facade used to register metrics/alarms/dashboards
+   * for the deployed stage and each of {@link monitoredRoutes}.
+   *
+   * @remarks
+   * When provided, the construct calls
+   * `monitoringFacade.monitorApiGateway({ api, apiStage })`, and once more for each
+   * monitored route with its `apiResource` and `apiMethod`. Both calls take
+   * {@link alarmConfiguration} as is; each route's `alarmFriendlyName` and
+   * `humanReadableName` are those of the stage with the route appended.
+   *
+   * @defaultValue `undefined`
+   */
+  monitoringFacade?: monitoring.MonitoringFacade;
+
+  /**
+   * Optional alarms and thresholds, such as 4XX/5XX error rates, latency percentiles
+   * and request counts (TPS), for the stage and each monitored route.
+   *
+   * @remarks
+   * Only applicable if {@link monitoringFacade} is also provided.
+   *
+   * @throws {Error} When set without a {@link monitoringFacade}
+   * @defaultValue No alarms or thresholds are configured.
+   */
+  alarmConfiguration?: ApiGatewayMonitoringOptions;
 }
 
 /**
@@ -92,11 +692,18 @@ export interface RestApiProps
  *
  * This construct simplifies the creation of REST APIs by providing:
  * - Regional endpoint configuration for better performance and security
- * - Automatic CloudWatch logging with configurable retention
+ * - Structured JSON access logs with stage-aware retention
  * - Distributed tracing and metrics collection
  * - Stage-aware CORS configuration
  * - Security-focused defaults (disabled execute-api endpoint)
  * - Structured naming conventions for multi-environment deployments
+ * - Declarative Lambda route registration with {@link RestApi.addRoute}
+ * - Cognito, Lambda and IAM authoriser presets with per-route overrides
+ * - Usage plans with API keys, optionally stored in Secrets Manager
+ * - An optional WAF web ACL on the deployed stage
+ * - An optional regional custom domain, shareable between APIs through base path mappings
+ * - An optional private mode, reachable only through `execute-api` interface VPC endpoints
+ * - Dashboard widgets and monitoring facade alarms per stage, and optionally per route
  *
  * The construct automatically sets up comprehensive observability through CloudWatch
  * logs, AWS X-Ray tracing, and CloudWatch metrics. For staging environments, it can
@@ -135,7 +742,7 @@ export interface RestApiProps
  * @remarks
  * The construct creates the following AWS resources:
  * - API Gateway REST API with regional endpoint
- * - CloudWatch Log Group for access logging (1-day retention)
+ * - CloudWatch Log Group for access logging (stage-aware retention, structured JSON format)
  * - API Gateway deployment with stage configuration
  * - CloudWatch role for API Gateway logging
  *
@@ -172,6 +779,126 @@ export class RestApi extends Construct {
    */
   public readonly api: apigw.RestApi;
 
+  /**
+   * Usage plans added to the API, by name.
+   */
+  public readonly usagePlans: Record<string, apigw.UsagePlan> = {};
+
+  /**
+   * API keys created for usage plan clients, by client name.
+   */
+  public readonly apiKeys: Record<string, apigw.IApiKey> = {};
+
+  /**
+   * Secrets holding API key values, by client name, for plans with `storeKeysInSecretsManager`.
+   */
+  public readonly apiKeySecrets: Record<string, secretsmanager.ISecret> = {};
+
+  /**
+   * The log group receiving the deployed stage's access logs, unless
+   * `deployOptions.accessLogDestination` is set.
+   */
+  public readonly accessLogGroup?: logs.LogGroup;
+
+  /**
+   * The `execute-api` interface endpoint created for a private API, when `privateApi.vpc` is set.
+   */
+  public readonly vpcEndpoint?: ec2.InterfaceVpcEndpoint;
+
+  /**
+   * The web ACL attached to the deployed stage, when `waf` is set.
+   */
+  public readonly webAcl?: WebAcl;
+
+  /**
+   * The custom domain serving the API, when `customDomain` is set.
+   */
+  public readonly domain?: apigw.IDomainName;
+
+  /**
+   * The mapping of the deployed stage onto the custom domain, when `customDomain` is set.
+   */
+  public readonly basePathMapping?: apigw.BasePathMapping;
+
+  /**
+   * CloudWatch dashboard widgets for the stage and monitored routes (when `createWidget` is true).
+   *
+   * Add to dashboards using: `stack.addWidgets(api.widgets)`
+   */
+  public readonly widgets: cloudwatch.ConcreteWidget[] = [];
+
+  /**
+   * The stage name the API is deployed to.
+   *
+   * @internal
+   */
+  private readonly stageName: string;
+
+  /**
+   * HTTP methods accepted by {@link addRoute}.
+   *
+   * @internal
+   */
+  private readonly routeMethods = [
+    'ANY',
+    'DELETE',
+    'GET',
+    'HEAD',
+    'OPTIONS',
+    'PATCH',
+    'POST',
+    'PUT',
+  ];
+
+  /**
+   * Routes registered with {@link addRoute} and the OpenAPI operation describing each one.
+   *
+   * @internal
+   */
+  private readonly routes: {
+    httpMethod: string;
+    path: string;
+    operation: OpenApiOperation;
+  }[] = [];
+
+  /**
+   * The imported OpenAPI document, when built from one.
+   *
+   * @internal
+   */
+  private openApiDocument?: OpenApiDocument;
+
+  /**
+   * Models created for imported operations, by model name.
+   *
+   * @internal
+   */
+  private readonly openApiModels = new Map<string, apigw.IModel>();
+
+  /**
+   * Request validators created for imported operations, by what they validate.
+   *
+   * @internal
+   */
+  private readonly requestValidators = new Map<
+    string,
+    apigw.IRequestValidator
+  >();
+
+  /**
+   * The authorisation configuration, when the API is authorised.
+   *
+   * @internal
+   */
+  private readonly auth?: RestApiAuth;
+
+  /**
+   * Method options for each authoriser created so far, by name.
+   *
+   * @internal
+   */
+  private readonly authorizerOptions = new Map<string, apigw.MethodOptions>();
+
   /**
    * Default CORS configuration applied to staging environments.
    *
@@ -196,7 +923,7 @@ export class RestApi extends Construct {
    *
    * The constructor sets up a REST API with the following features:
    * - Regional endpoint for improved performance and security
-   * - CloudWatch logging with 1-day retention for cost optimization
+   * - CloudWatch access logging in a structured JSON format with stage-aware retention
    * - AWS X-Ray tracing for request tracking
    * - CloudWatch metrics for monitoring
    * - Stage-aware CORS configuration
@@ -234,7 +961,7 @@ export class RestApi extends Construct {
    *
    * @remarks
    * The construct automatically creates:
-   * - A CloudWatch Log Group named `${id}ApiLogs` with 1-day retention
+   * - A CloudWatch Log Group named `${id}ApiLogs` with stage-aware retention, unless `deployOptions.accessLogDestination` is set
    * - An API Gateway REST API named `${id}-api-${stageName}`
    * - A deployment stage named 'api' with logging and tracing enabled
    * - A CloudWatch role for API Gateway service logging
@@ -242,12 +969,88 @@ export class RestApi extends Construct {
   constructor(scope: Construct, id: string, props: RestApiProps) {
     super(scope, id);
 
+    this.auth = props.auth;
+    this.stageName = props.stageName;
+
+    if (props.auth?.authorizers?.public) {
+      throw new Error(
+        `Authorizer name 'public' is reserved for routes without authorisation on ${id}`,
+      );
+    }
+
+    // Applied through the default method options so methods added directly to the API are covered too
+    const defaultAuthOptions = props.auth
+      ? this.getAuthorizerOptions('default', props.auth.defaultAuthorizer)
+      : undefined;
+
     const corsOptions: apigw.CorsOptions | undefined =
       props.defaultCorsPreflightOptions ??
       (props.isStagingEnvironment ? this.defaultCorsOpitions : undefined);
 
+    let vpcEndpoints: ec2.IInterfaceVpcEndpoint[] | undefined;
+
+    if (props.privateApi) {
+      const { vpc, subnets } = props.privateApi;
+
+      if (!vpc === !props.privateApi.vpcEndpoints?.length) {
+        throw new Error(
+          `The private API ${id} must set either vpc or vpcEndpoints`,
+        );
+      }
+      if (props.disableExecuteApiEndpoint) {
+        throw new Error(
+          `The private API ${id} is only reachable through its execute-api endpoint, so disableExecuteApiEndpoint cannot be true`,
+        );
+      }
+      if (props.customDomain) {
+        throw new Error(
+          `The private API ${id} cannot use customDomain, which creates a regional domain`,
+        );
+      }
+      if (props.endpointTypes || props.endpointConfiguration) {
+        throw new Error(
+          `The private API ${id} sets its own PRIVATE endpoint configuration, so endpointTypes and endpointConfiguration cannot be set`,
+        );
+      }
+
+      if (vpc) {
+        this.vpcEndpoint = new ec2.InterfaceVpcEndpoint(
+          this,
+          `${id}VpcEndpoint`,
+          {
+            vpc,
+            subnets,
+            service: ec2.InterfaceVpcEndpointAwsService.APIGATEWAY,
+            privateDnsEnabled: true,
+          },
+        );
+      }
+
+      vpcEndpoints = this.vpcEndpoint
+        ? [this.vpcEndpoint]
+        : props.privateApi.vpcEndpoints;
+    }
+
+    if (props.deploy !== false && !props.deployOptions?.accessLogDestination) {
+      this.accessLogGroup = new logs.LogGroup(this, `${id}ApiLogs`, {
+        retention:
+          props.accessLogging?.retention ??
+          getLogRetentionFromStage(props.stageName),
+        removalPolicy:
+          props.accessLogging?.removalPolicy ??
+          getRemovalPolicyFromStage(props.stageName),
+      });
+    }
+
     const defaultProps: apigw.RestApiProps = {
-      endpointTypes: [apigw.EndpointType.REGIONAL],
+      ...(vpcEndpoints
+        ? {
+            endpointConfiguration: {
+              types: [apigw.EndpointType.PRIVATE],
+              vpcEndpoints,
+            },
+          }
+        : { endpointTypes: [apigw.EndpointType.REGIONAL] }),
       defaultCorsPreflightOptions: corsOptions,
       cloudWatchRole: true,
       retainDeployments: false,
@@ -256,7 +1059,8 @@ export class RestApi extends Construct {
         service: id.toLowerCase(),
         resource: 'api',
       }),
-      disableExecuteApiEndpoint: true,
+      // A private API can only be called through its execute-api endpoint
+      disableExecuteApiEndpoint: !vpcEndpoints,
       deploy: true,
       ...(props.deploy !== false && {
         deployOptions: {
@@ -264,12 +1068,12 @@ export class RestApi extends Construct {
           loggingLevel: apigw.MethodLoggingLevel.INFO,
           tracingEnabled: true,
           metricsEnabled: true,
-          accessLogDestination: new apigw.LogGroupLogDestination(
-            new logs.LogGroup(this, `${id}ApiLogs`, {
-              removalPolicy: cdk.RemovalPolicy.DESTROY,
-              retention: logs.RetentionDays.ONE_DAY,
-            }),
-          ),
+          ...(this.accessLogGroup && {
+            accessLogDestination: new apigw.LogGroupLogDestination(
+              this.accessLogGroup,
+            ),
+          }),
+          accessLogFormat: structuredAccessLogFormat,
         },
       }),
     };
@@ -277,6 +1081,12 @@ export class RestApi extends Construct {
     this.api = new apigw.RestApi(this, `${id}Api`, {
       ...defaultProps,
       ...props,
+      ...(defaultAuthOptions && {
+        defaultMethodOptions: {
+          ...defaultAuthOptions,
+          ...props.defaultMethodOptions,
+        },
+      }),
       // Remove deployOptions from props if deploy is false
       ...(props.deploy === false && { deployOptions: undefined }),
       // Add merged deployOptions if deploy is not false
@@ -287,5 +1097,982 @@ export class RestApi extends Construct {
         },
       }),
     });
+
+    if (vpcEndpoints) {
+      this.api.addToResourcePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          principals: [new iam.AnyPrincipal()],
+          actions: ['execute-api:Invoke'],
+          resources: ['execute-api:/*'],
+        }),
+      );
+      this.api.addToResourcePolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.DENY,
+          principals: [new iam.AnyPrincipal()],
+          actions: ['execute-api:Invoke'],
+          resources: ['execute-api:/*'],
+          conditions: {
+            StringNotEquals: {
+              'aws:SourceVpce': vpcEndpoints.map(
+                (endpoint) => endpoint.vpcEndpointId,
+              ),
+            },
+          },
+        }),
+      );
+    }
+
+    if (props.openApi) {
+      this.importOpenApi(props.openApi);
+    }
+
+    for (const [name, plan] of Object.entries(props.usagePlans ?? {})) {
+      this.addUsagePlan(name, plan);
+    }
+
+    if (props.waf) {
+      if (!this.api.latestDeployment) {
+        throw new Error(
+          `The web ACL for ${id} needs a deployed stage; deploy is set to false`,
+        );
+      }
+
+      this.webAcl = new WebAcl(this, `${id}WebAcl`, {
+        ...props.waf,
+        stageName: props.stageName,
+        scope: WebAclScope.Regional,
+      });
+      this.webAcl.associate('Stage', this.api.deploymentStage.stageArn);
+    }
+
+    if (props.customDomain) {
+      if (!this.api.latestDeployment) {
+        throw new Error(
+          `The custom domain for ${id} needs a deployed stage; deploy is set to false`,
+        );
+      }
+
+      const { domain, domainName } = props.customDomain;
+      if (domainName && !domain) {
+        this.domain = this.createDomain(id, domainName, props.customDomain);
+      } else if (domain && !domainName) {
+        this.domain = domain;
+      } else {
+        throw new Error(
+          `The custom domain for ${id} must set either domainName or domain`,
+        );
+      }
+
+      this.basePathMapping = new apigw.BasePathMapping(
+        this,
+        `${id}BasePathMapping`,
+        {
+          domainName: this.domain,
+          restApi: this.api,
+          stage: this.api.deploymentStage,
+          // Accept '/v1' as well as 'v1'; an empty path maps the root
+          basePath:
+            props.customDomain.basePath?.replace(/^\/+|\/+$/g, '') || undefined,
+        },
+      );
+    }
+
+    if (props.alarmConfiguration && !props.monitoringFacade) {
+      throw new Error(
+        'alarmConfiguration is provided but monitoringFacade is undefined; cannot configure alarms without a monitoring facade',
+      );
+    }
+
+    const monitoredRoutes = (props.monitoredRoutes ?? []).map((route) =>
+      this.parseRoute(route),
+    );
+
+    if (props.monitoringFacade) {
+      props.monitoringFacade.monitorApiGateway({
+        ...props.alarmConfiguration,
+        api: this.api,
+        apiStage: props.stageName,
+      });
+
+      const alarmFriendlyName =
+        props.alarmConfiguration?.alarmFriendlyName ?? this.api.restApiName;
+      const humanReadableName =
+        props.alarmConfiguration?.humanReadableName ?? id;
+
+      for (const { httpMethod, routePath } of monitoredRoutes) {
+        props.monitoringFacade.monitorApiGateway({
+          ...props.alarmConfiguration,
+          api: this.api,
+          apiStage: props.stageName,
+          apiResource: routePath,
+          apiMethod: httpMethod,
+          // Keep alarm names unique between the stage and its routes
+          alarmFriendlyName: `${alarmFriendlyName}-${httpMethod}${toPascalCase(routePath) || 'Root'}`,
+          humanReadableName: `${humanReadableName} ${httpMethod} ${routePath}`,
+        });
+      }
+    }
+
+    if (props.createWidget) {
+      this.widgets.push(...this.createWidgets(`${id} (${props.stageName})`));
+
+      for (const { httpMethod, routePath } of monitoredRoutes) {
+        this.widgets.push(
+          ...this.createWidgets(`${id} ${httpMethod} ${routePath}`, {
+            Resource: routePath,
+            Method: httpMethod,
+          }),
+        );
+      }
+    }
+
+    if (props.openApiExportPath) {
+      const exportPath = path.join(props.openApiExportPath);
+      if (
+        path.isAbsolute(exportPath) ||
+        exportPath === '..' ||
+        exportPath.startsWith(`..${path.sep}`)
+      ) {
+        throw new Error(
+          `openApiExportPath ${props.openApiExportPath} of ${id} must be relative to the cloud assembly directory`,
+        );
+      }
+
+      // Written into the cloud assembly during synthesis, once every route has been registered
+      cdk.attachCustomSynthesis(this, {
+        onSynthesize: (session) => {
+          const exportFile = path.join(session.outdir, exportPath);
+          fs.mkdirSync(path.dirname(exportFile), { recursive: true });
+          fs.writeFileSync(
+            exportFile,
+            `${JSON.stringify(this.toOpenApiDocument(), null, 2)}\n`,
+          );
+        },
+      });
+    }
+  }
+
+  /**
+   * Registers a Lambda proxy route, creating any missing resources along its path.
+   *
+   * @param route - The HTTP method and path, e.g. `'GET /orders/{id}'`
+   * @param handler - The function handling the route; ProgressiveLambda handlers are integrated through their stage alias
+   * @param options - Method options (authorisation, request validation, etc.) and integration options
+   * @returns The created API Gateway method
+   *
+   * @throws {Error} When the route is not `<METHOD> /<path>`, the method and path are already registered, or `auth` names an undefined authoriser
+   *
+   * @example
+   * ```typescript
+   * api.addRoute('GET /orders', listOrders);
+   * api.addRoute('GET /orders/{id}', getOrder); // ProgressiveLambda, integrated with its alias
+   * api.addRoute('POST /orders', createOrder, {
+   *   requestValidatorOptions: { validateRequestBody: true },
+   * });
+   * ```
+   */
+  public addRoute(
+    route: string,
+    handler: RestApiRouteHandler,
+    options: RestApiRouteOptions = {},
+  ): apigw.Method {
+    const { httpMethod, routePath } = this.parseRoute(route);
+
+    return this.addLambdaRoute(httpMethod, routePath, handler, options, {
+      operationId: options.operationName,
+      responses: { default: { description: 'Lambda proxy response' } },
+    });
+  }
+
+  /**
+   * Adds a usage plan for the deployed stage, with an API key for each of its clients.
+   *
+   * @param name - The plan name, e.g. `'gold'`
+   * @param plan - Throttling, quota and the clients to create API keys for
+   * @returns The created usage plan
+   *
+   * @throws {Error} When the API is not deployed, the plan already exists, or a client already has a key
+   *
+   * @example
+   * ```typescript
+   * api.addUsagePlan('gold', {
+   *   throttle: { rateLimit: 100, burstLimit: 200 },
+   *   quota: { limit: 1_000_000, period: apigw.Period.MONTH },
+   *   apiKeys: ['acme'],
+   * });
+   * api.addRoute('GET /reports', getReports, { apiKeyRequired: true });
+   * ```
+   */
+  public addUsagePlan(name: string, plan: RestApiUsagePlan): apigw.UsagePlan {
+    if (!this.api.latestDeployment) {
+      throw new Error(
+        `Usage plan '${name}' needs a deployed stage; ${this.node.id} has deploy set to false`,
+      );
+    }
+    if (this.usagePlans[name]) {
+      throw new Error(
+        `Usage plan '${name}' is already defined on ${this.node.id}`,
+      );
+    }
+
+    const planId = `${this.node.id}${toPascalCase(name)}`;
+    const usagePlan = this.api.addUsagePlan(`${planId}UsagePlan`, {
+      name: generateResourceName({
+        stage: this.stageName,
+        service: this.node.id.toLowerCase(),
+        resource: 'plan',
+        suffix: name,
+      }),
+      description: plan.description,
+      throttle: plan.throttle,
+      quota: plan.quota,
+      apiStages: [{ stage: this.api.deploymentStage }],
+    });
+    this.usagePlans[name] = usagePlan;
+
+    for (const client of plan.apiKeys ?? []) {
+      if (this.apiKeys[client]) {
+        throw new Error(
+          `Client '${client}' already has an API key on ${this.node.id}; a client can only be on one usage plan`,
+        );
+      }
+
+      const keyId = `${planId}${toPascalCase(client)}ApiKey`;
+      const keyName = generateResourceName({
+        stage: this.stageName,
+        service: this.node.id.toLowerCase(),
+        resource: 'key',
+        suffix: client,
+      });
+
+      let value: string | undefined;
+      if (plan.storeKeysInSecretsManager) {
+        const secret = new secretsmanager.Secret(this, `${keyId}Secret`, {
+          secretName: keyName,
+          description: `API key for ${client} on the ${name} usage plan of ${this.node.id}`,
+          generateSecretString: {
+            passwordLength: 40,
+            excludePunctuation: true,
+          },
+          removalPolicy: getRemovalPolicyFromStage(this.stageName),
+        });
+        NagSuppressions.addResourceSuppressions(secret, [
+          {
+            id: 'AwsSolutions-SMG4',
+            reason:
+              'An API key is rotated by issuing the client a new key, not by rotating the secret in place.',
+          },
+        ]);
+        this.apiKeySecrets[client] = secret;
+        value = secret.secretValue.unsafeUnwrap();
+      }
+
+      const apiKey = this.api.addApiKey(keyId, {
+        apiKeyName: keyName,
+        description: `API key for ${client} on the ${name} usage plan`,
+        value,
+      });
+      usagePlan.addApiKey(apiKey);
+      this.apiKeys[client] = apiKey;
+    }
+
+    return usagePlan;
+  }
+
+  /**
+   * Builds the OpenAPI 3 definition of the routes registered on this API.
+   *
+   * The definition covers every route registered with {@link RestApi.addRoute}, including
+   * those imported from {@link RestApiProps.openApi}, so clients can be generated from what
+   * is deployed. Imported operations appear as they do in the document; other routes are
+   * described by their path parameters and `operationName`.
+   *
+   * @returns The OpenAPI 3 document of the routes registered so far
+   */
+  public toOpenApiDocument(): Record<string, unknown> {
+    const paths: Record<string, Record<string, OpenApiOperation>> = {};
+
+    for (const { httpMethod, path: routePath, operation } of this.routes) {
+      // API Gateway's ANY method has no OpenAPI equivalent
+      const key =
+        httpMethod === 'ANY'
+          ? 'x-amazon-apigateway-any-method'
+          : httpMethod.toLowerCase();
+      const pathParameters = [...routePath.matchAll(/{([^}+]+)\+?}/g)].map(
+        ([, name]) => ({ name, in: 'path', required: true }),
+      );
+
+      paths[routePath] = {
+        ...paths[routePath],
+        [key]: {
+          ...(pathParameters.length && { parameters: pathParameters }),
+          ...operation,
+        },
+      };
+    }
+
+    return {
+      openapi: this.openApiDocument?.openapi ?? '3.0.3',
+      info: this.openApiDocument?.info ?? {
+        title: this.api.restApiName,
+        version: '1.0.0',
+      },
+      paths,
+      ...(this.openApiDocument?.components && {
+        components: this.openApiDocument.components,
+      }),
+    };
+  }
+
+  /**
+   * Splits a route such as `'GET /orders/{id}'` into its HTTP method and resource path.
+   *
+   * @param route - The route
+   * @returns The upper case HTTP method and the path, without a trailing slash
+   *
+   * @throws {Error} When the route is not a supported HTTP method followed by a path
+   */
+  private parseRoute(route: string): { httpMethod: string; routePath: string } {
+    const match = /^([A-Za-z]+)\s+(\/\S*)$/.exec(route.trim());
+    const httpMethod = match?.[1].toUpperCase();
+
+    if (!match || !httpMethod || !this.routeMethods.includes(httpMethod)) {
+      throw new Error(
+        `Route '${route}' must be an HTTP method followed by a path, e.g. 'GET /orders/{id}'`,
+      );
+    }
+
+    // Ignore a trailing slash so '/orders' and '/orders/' are the same route
+    return { httpMethod, routePath: match[2].replace(/(.)\/+$/, '$1') };
+  }
+
+  /**
+   * Creates the request count, error rate and latency widgets for the stage or one of its routes.
+   *
+   * @param title - The header and widget title prefix
+   * @param routeDimensions - The `Resource` and `Method` dimensions of a route
+   * @returns The widgets, starting with a header
+   */
+  private createWidgets(
+    title: string,
+    routeDimensions: Record<string, string> = {},
+  ): cloudwatch.ConcreteWidget[] {
+    const metric = (
+      metricName: string,
+      statistic: string,
+      label: string,
+    ): cloudwatch.Metric =>
+      new cloudwatch.Metric({
+        namespace: 'AWS/ApiGateway',
+        metricName,
+        dimensionsMap: {
+          ApiName: this.api.restApiName,
+          Stage: this.stageName,
+          ...routeDimensions,
+        },
+        statistic,
+        label,
+        period: cdk.Duration.minutes(1),
+      });
+
+    return [
+      // Header widget grouping these widgets on a shared dashboard
+      new cloudwatch.TextWidget({
+        markdown: `### ${title}`,
+        width: 24,
+        height: 1,
+      }),
+      new cloudwatch.GraphWidget({
+        title: `${title} - Requests`,
+        width: 8,
+        left: [metric('Count', cloudwatch.Stats.SUM, 'Requests')],
+      }),
+      // 4XXError and 5XXError are 1 for a failed request and 0 otherwise, so the average is the rate
+      new cloudwatch.GraphWidget({
+        title: `${title} - Error Rate (%)`,
+        width: 8,
+        left: [
+          new cloudwatch.MathExpression({
+            expression: '100 * clientErrors',
+            usingMetrics: {
+              clientErrors: metric('4XXError', cloudwatch.Stats.AVERAGE, '4XX'),
+            },
+            label: '4XX',
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.MathExpression({
+            expression: '100 * serverErrors',
+            usingMetrics: {
+              serverErrors: metric('5XXError', cloudwatch.Stats.AVERAGE, '5XX'),
+            },
+            label: '5XX',
+            period: cdk.Duration.minutes(1),
+          }),
+        ],
+      }),
+      new cloudwatch.GraphWidget({
+        title: `${title} - Latency`,
+        width: 8,
+        left: [50, 90, 99].map((percentile) =>
+          metric('Latency', cloudwatch.Stats.p(percentile), `p${percentile}`),
+        ),
+      }),
+    ];
+  }
+
+  /**
+   * Creates a regional custom domain with a TLS 1.2 security policy and a Route 53 alias to it.
+   *
+   * @param id - The construct id, prefixed to the created resources
+   * @param domainName - The domain name to create
+   * @param customDomain - The hosted zone and optional certificate
+   * @returns The created domain
+   *
+   * @throws {Error} When `hostedZone` is missing
+   */
+  private createDomain(
+    id: string,
+    domainName: string,
+    customDomain: RestApiCustomDomain,
+  ): apigw.DomainName {
+    const { hostedZone } = customDomain;
+
+    if (!hostedZone) {
+      throw new Error(
+        `The custom domain ${domainName} for ${id} needs a hostedZone for its alias record`,
+      );
+    }
+
+    const domain = new apigw.DomainName(this, `${id}DomainName`, {
+      domainName,
+      certificate:
+        customDomain.certificate ??
+        new acm.Certificate(this, `${id}Certificate`, {
+          domainName,
+          validation: acm.CertificateValidation.fromDns(hostedZone),
+        }),
+      endpointType: apigw.EndpointType.REGIONAL,
+      securityPolicy: apigw.SecurityPolicy.TLS_1_2,
+    });
+
+    new route53.ARecord(this, `${id}DomainAlias`, {
+      zone: hostedZone,
+      recordName: domainName,
+      target: route53.RecordTarget.fromAlias(
+        new route53Targets.ApiGatewayDomain(domain),
+      ),
+    });
+
+    return domain;
+  }
+
+  /**
+   * Adds a Lambda proxy method and records the OpenAPI operation describing it.
+   *
+   * @param httpMethod - The upper case HTTP method
+   * @param routePath - The resource path
+   * @param handler - The function handling the route
+   * @param options - Method and integration options
+   * @param operation - The OpenAPI operation, for {@link RestApi.toOpenApiDocument}
+   * @returns The created API Gateway method
+   */
+  private addLambdaRoute(
+    httpMethod: string,
+    routePath: string,
+    handler: RestApiRouteHandler,
+    options: RestApiRouteOptions,
+    operation: OpenApiOperation,
+  ): apigw.Method {
+    const resource =
+      routePath === '/'
+        ? this.api.root
+        : this.api.root.resourceForPath(routePath);
+
+    if (resource.node.tryFindChild(httpMethod)) {
+      throw new Error(
+        `Route '${httpMethod} ${routePath}' is already registered on ${this.node.id}`,
+      );
+    }
+
+    // Integrate ProgressiveLambda handlers through the alias CodeDeploy shifts
+    const fn = handler instanceof ProgressiveFunction ? handler.alias : handler;
+    const { integrationOptions, auth, ...methodOptions } = options;
+
+    const authOptions = auth ? this.getRouteAuthOptions(auth) : undefined;
+    // IAM has no authoriser to replace an inherited one with, so the method is created
+    // without authorisation and switched to IAM on the resource
+    const replacesAuthorizerWithIam =
+      authOptions?.authorizationType === apigw.AuthorizationType.IAM &&
+      !!resource.defaultMethodOptions?.authorizer;
+
+    const method = resource.addMethod(
+      httpMethod,
+      new apigw.LambdaIntegration(fn, integrationOptions),
+      {
+        ...authOptions,
+        ...(replacesAuthorizerWithIam && {
+          authorizationType: apigw.AuthorizationType.NONE,
+        }),
+        ...methodOptions,
+      },
+    );
+    if (replacesAuthorizerWithIam) {
+      (method.node.defaultChild as apigw.CfnMethod).authorizationType =
+        apigw.AuthorizationType.IAM;
+    }
+    if (auth === 'public') {
+      this.addPublicRouteSuppressions(method, `${httpMethod} ${routePath}`);
+    }
+    this.routes.push({ httpMethod, path: routePath, operation });
+
+    return method;
+  }
+
+  /**
+   * Returns the method options for a route's choice of authoriser.
+   *
+   * @param auth - `'public'`, or the name of an authoriser in {@link RestApiAuth.authorizers}
+   * @returns Method options selecting the authoriser, or no authorisation for public routes
+   */
+  private getRouteAuthOptions(auth: string): apigw.MethodOptions {
+    if (auth === 'public') {
+      return { authorizationType: apigw.AuthorizationType.NONE };
+    }
+
+    const authorizer = this.auth?.authorizers?.[auth];
+    if (!authorizer) {
+      throw new Error(
+        `Authorizer '${auth}' is not defined in the auth.authorizers of ${this.node.id}`,
+      );
+    }
+
+    return this.getAuthorizerOptions(auth, authorizer);
+  }
+
+  /**
+   * Returns the method options for an authoriser, creating the authoriser on first use.
+   *
+   * @param name - The authoriser name, used in its construct id
+   * @param authorizer - The authoriser preset
+   * @returns Method options with the authorisation type, authoriser and scopes
+   *
+   * @throws {Error} When a Cognito authoriser has no user pools or a Lambda authoriser has no handler
+   */
+  private getAuthorizerOptions(
+    name: string,
+    authorizer: RestApiAuthorizer,
+  ): apigw.MethodOptions {
+    const existing = this.authorizerOptions.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const { type, userPools, handler, identitySources, resultsCacheTtl } =
+      authorizer;
+    const constructId = `${this.node.id}${toPascalCase(name)}Authorizer`;
+
+    if (
+      authorizer.authorizationScopes &&
+      type !== RestApiAuthorizationType.CognitoUserPools
+    ) {
+      throw new Error(
+        `Authorizer '${name}' on ${this.node.id} can only set authorizationScopes with CognitoUserPools`,
+      );
+    }
+
+    let options: apigw.MethodOptions;
+    switch (type) {
+      case RestApiAuthorizationType.CognitoUserPools:
+        if (!userPools?.length) {
+          throw new Error(
+            `Authorizer '${name}' on ${this.node.id} needs userPools for CognitoUserPools`,
+          );
+        }
+        options = {
+          authorizationType: apigw.AuthorizationType.COGNITO,
+          authorizer: new apigw.CognitoUserPoolsAuthorizer(this, constructId, {
+            cognitoUserPools: userPools,
+            identitySource: identitySources?.[0],
+            resultsCacheTtl,
+          }),
+          authorizationScopes: authorizer.authorizationScopes,
+        };
+        break;
+      case RestApiAuthorizationType.LambdaToken:
+      case RestApiAuthorizationType.LambdaRequest: {
+        if (!handler) {
+          throw new Error(
+            `Authorizer '${name}' on ${this.node.id} needs a handler for ${type}`,
+          );
+        }
+        // Invoke ProgressiveLambda authorisers through the alias CodeDeploy shifts
+        const fn =
+          handler instanceof ProgressiveFunction ? handler.alias : handler;
+        options = {
+          authorizationType: apigw.AuthorizationType.CUSTOM,
+          authorizer:
+            type === RestApiAuthorizationType.LambdaToken
+              ? new apigw.TokenAuthorizer(this, constructId, {
+                  handler: fn,
+                  identitySource: identitySources?.[0],
+                  resultsCacheTtl,
+                })
+              : new apigw.RequestAuthorizer(this, constructId, {
+                  handler: fn,
+                  identitySources: identitySources ?? [
+                    apigw.IdentitySource.header('Authorization'),
+                  ],
+                  resultsCacheTtl,
+                }),
+        };
+        break;
+      }
+      default:
+        options = { authorizationType: apigw.AuthorizationType.IAM };
+    }
+
+    this.authorizerOptions.set(name, options);
+
+    return options;
+  }
+
+  /**
+   * Suppresses the cdk-nag API Gateway and Cognito authorisation checks on a route marked public.
+   *
+   * Authorised routes need no suppression: they pass `AwsSolutions-APIG4`, and Cognito
+   * authorised routes also pass `AwsSolutions-COG4`.
+   *
+   * @param method - The route's method
+   * @param route - The route, for the suppression reason
+   */
+  private addPublicRouteSuppressions(
+    method: apigw.Method,
+    route: string,
+  ): void {
+    const reason = `The route ${route} is marked public with auth: 'public', so callers use it without authorisation.`;
+
+    NagSuppressions.addResourceSuppressions(method, [
+      { id: 'AwsSolutions-APIG4', reason },
+      { id: 'AwsSolutions-COG4', reason },
+    ]);
+  }
+
+  /**
+   * Registers a route for every operation in an OpenAPI 3 document.
+   *
+   * @param openApi - The document path and the handlers by operationId
+   */
+  private importOpenApi(openApi: RestApiOpenApi): void {
+    const result = openApiDocumentSchema.safeParse(
+      JSON.parse(fs.readFileSync(openApi.specPath, 'utf-8')),
+    );
+    if (!result.success) {
+      throw new Error(
+        `Invalid OpenAPI document ${openApi.specPath}: ${result.error.issues
+          .map((issue) => `${issue.path.join('.')} ${issue.message}`)
+          .join(' ')}`,
+      );
+    }
+    this.openApiDocument = result.data;
+
+    const unusedHandlers = new Set(Object.keys(openApi.handlers));
+
+    for (const [routePath, pathItem] of Object.entries(
+      this.openApiDocument.paths,
+    )) {
+      for (const [key, value] of Object.entries(pathItem)) {
+        const httpMethod = key.toUpperCase();
+        if (!this.routeMethods.includes(httpMethod)) {
+          continue;
+        }
+
+        const operation = openApiOperationSchema.parse(
+          this.resolveOpenApiRef(value),
+        );
+        const { operationId } = operation;
+        const handler = operationId ? openApi.handlers[operationId] : undefined;
+
+        if (!operationId || !handler) {
+          throw new Error(
+            `OpenAPI operation '${httpMethod} ${routePath}' needs an operationId with a handler in ${openApi.specPath}`,
+          );
+        }
+        unusedHandlers.delete(operationId);
+
+        // Operation parameters override path level parameters with the same name and location
+        const parameters = new Map<string, OpenApiParameter>();
+        for (const parameter of [
+          ...((pathItem.parameters ?? []) as unknown[]),
+          ...(operation.parameters ?? []),
+        ]) {
+          const resolved = openApiParameterSchema.parse(
+            this.resolveOpenApiRef(parameter),
+          );
+          parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+        }
+
+        this.addLambdaRoute(
+          httpMethod,
+          routePath,
+          handler,
+          this.getOpenApiMethodOptions(operationId, operation, [
+            ...parameters.values(),
+          ]),
+          { ...operation, parameters: [...parameters.values()] },
+        );
+      }
+    }
+
+    if (unusedHandlers.size) {
+      throw new Error(
+        `Handlers ${[...unusedHandlers].join(', ')} do not match an operationId in ${openApi.specPath}`,
+      );
+    }
+  }
+
+  /**
+   * Builds method options from an imported OpenAPI operation.
+   *
+   * @param operationId - The operation id, used as the operation name and in model names
+   * @param operation - The OpenAPI operation
+   * @param parameters - The operation's resolved parameters
+   * @returns Method options with request parameters, models, validator and responses
+   */
+  private getOpenApiMethodOptions(
+    operationId: string,
+    operation: OpenApiOperation,
+    parameters: OpenApiParameter[],
+  ): RestApiRouteOptions {
+    const requestParameters: Record<string, boolean> = {};
+    for (const parameter of parameters) {
+      if (parameter.in !== 'cookie') {
+        const location =
+          parameter.in === 'query' ? 'querystring' : parameter.in;
+        requestParameters[`method.request.${location}.${parameter.name}`] =
+          parameter.in === 'path' || !!parameter.required;
+      }
+    }
+
+    const requestModel = operation.requestBody
+      ? this.getOpenApiModel(
+          this.resolveOpenApiRef(operation.requestBody),
+          `${operationId}Request`,
+        )
+      : undefined;
+
+    const methodResponses = Object.entries(operation.responses ?? {})
+      .filter(([statusCode]) => /^[1-5]\d\d$/.test(statusCode))
+      .map(([statusCode, response]) => {
+        const responseModel = this.getOpenApiModel(
+          this.resolveOpenApiRef(response),
+          `${operationId}Response${statusCode}`,
+        );
+
+        return {
+          statusCode,
+          responseModels: responseModel
+            ? { 'application/json': responseModel }
+            : undefined,
+        };
+      });
+
+    const validateRequestBody = !!requestModel;
+    const validateRequestParameters =
+      Object.values(requestParameters).some(Boolean);
+
+    // An empty security requirement makes the operation public
+    const security = operation.security ?? this.openApiDocument?.security;
+    const auth =
+      security?.length === 0
+        ? 'public'
+        : security
+            ?.flatMap((requirement) => Object.keys(requirement))
+            .find((name) => this.auth?.authorizers?.[name]);
+
+    return {
+      operationName: operationId,
+      auth,
+      requestParameters: Object.keys(requestParameters).length
+        ? requestParameters
+        : undefined,
+      requestModels: requestModel
+        ? { 'application/json': requestModel }
+        : undefined,
+      requestValidator:
+        validateRequestBody || validateRequestParameters
+          ? this.getRequestValidator(
+              validateRequestBody,
+              validateRequestParameters,
+            )
+          : undefined,
+      methodResponses: methodResponses.length ? methodResponses : undefined,
+    };
+  }
+
+  /**
+   * Returns the model for a JSON request or response body.
+   *
+   * Component schemas referenced by `$ref` share one model; inline schemas get their own.
+   *
+   * @param body - The OpenAPI request body or response object
+   * @param inlineName - The model name for an inline schema
+   * @returns The model, or undefined when there is no JSON schema
+   */
+  private getOpenApiModel(
+    body: unknown,
+    inlineName: string,
+  ): apigw.IModel | undefined {
+    const schema =
+      openApiContentSchema.parse(body).content?.['application/json']?.schema;
+    if (!schema) {
+      return undefined;
+    }
+
+    const name =
+      typeof schema.$ref === 'string'
+        ? (schema.$ref.split('/').pop() ?? inlineName)
+        : inlineName;
+    const modelName = name.replace(/[^A-Za-z0-9]/g, '');
+
+    let model = this.openApiModels.get(modelName);
+    if (!model) {
+      model = this.api.addModel(`${this.node.id}${modelName}Model`, {
+        contentType: 'application/json',
+        modelName,
+        schema: {
+          schema: apigw.JsonSchemaVersion.DRAFT4,
+          title: modelName,
+          ...(this.toJsonSchema(schema, []) as OpenApiObject),
+        },
+      });
+      this.openApiModels.set(modelName, model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Returns a request validator, shared by every method that validates the same things.
+   *
+   * @param validateRequestBody - Whether the body is validated against the request model
+   * @param validateRequestParameters - Whether required parameters are validated
+   * @returns The request validator
+   */
+  private getRequestValidator(
+    validateRequestBody: boolean,
+    validateRequestParameters: boolean,
+  ): apigw.IRequestValidator {
+    const parts = [
+      ...(validateRequestBody ? ['Body'] : []),
+      ...(validateRequestParameters ? ['Params'] : []),
+    ];
+    const key = parts.join('And');
+
+    let validator = this.requestValidators.get(key);
+    if (!validator) {
+      validator = this.api.addRequestValidator(
+        `${this.node.id}Validate${key}`,
+        {
+          requestValidatorName: `validate-${parts.join('-and-').toLowerCase()}`,
+          validateRequestBody,
+          validateRequestParameters,
+        },
+      );
+      this.requestValidators.set(key, validator);
+    }
+
+    return validator;
+  }
+
+  /**
+   * Converts an OpenAPI schema to the JSON Schema draft 4 used by API Gateway models.
+   *
+   * Component `$ref`s are inlined, `nullable` becomes a `null` type, and other
+   * OpenAPI-only keywords are removed.
+   *
+   * @param schema - The OpenAPI schema, or a value inside one
+   * @param refs - Component references being inlined, to detect recursion
+   * @returns The JSON schema
+   */
+  private toJsonSchema(schema: unknown, refs: string[]): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.toJsonSchema(item, refs));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const { $ref, ...rest } = schema as OpenApiObject;
+    if (typeof $ref === 'string') {
+      if (refs.includes($ref)) {
+        throw new Error(
+          `Recursive OpenAPI schema ${$ref} cannot be used in an API Gateway model`,
+        );
+      }
+      return this.toJsonSchema(this.resolveOpenApiRef({ $ref }), [
+        ...refs,
+        $ref,
+      ]);
+    }
+
+    const jsonSchema: OpenApiObject = {};
+    for (const [key, value] of Object.entries(rest)) {
+      if (key === 'properties' && value && typeof value === 'object') {
+        // Property names are data rather than keywords, so only their schemas are converted
+        jsonSchema[key] = Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [
+            name,
+            this.toJsonSchema(property, refs),
+          ]),
+        );
+      } else if (!openApiOnlyKeywords.includes(key)) {
+        jsonSchema[key] = this.toJsonSchema(value, refs);
+      }
+    }
+    if (rest.nullable === true && typeof rest.type === 'string') {
+      jsonSchema.type = [rest.type, 'null'];
+    }
+
+    return jsonSchema;
+  }
+
+  /**
+   * Resolves a local `$ref` (e.g. `#/components/parameters/OrderId`) in the imported document.
+   *
+   * @param value - An OpenAPI object that may be a reference
+   * @returns The referenced object, or the value itself when it is not a reference
+   */
+  private resolveOpenApiRef(value: unknown): unknown {
+    const ref =
+      value && typeof value === 'object'
+        ? (value as OpenApiObject).$ref
+        : undefined;
+    if (typeof ref !== 'string') {
+      return value;
+    }
+    if (!ref.startsWith('#/')) {
+      throw new Error(
+        `OpenAPI reference ${ref} must point inside the document`,
+      );
+    }
+
+    const resolved = ref
+      .slice(2)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>(
+        (node, segment) =>
+          node && typeof node === 'object'
+            ? (node as OpenApiObject)[segment]
+            : undefined,
+        this.openApiDocument,
+      );
+    if (resolved === undefined) {
+      throw new Error(`OpenAPI reference ${ref} does not exist`);
+    }
+
+    return this.resolveOpenApiRef(resolved);
   }
 }
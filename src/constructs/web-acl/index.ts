@@ -0,0 +1 @@
+export * from './web-acl';
@@ -0,0 +1,293 @@
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { AwsSolutionsChecks } from 'cdk-nag';
+import {
+  WebAcl,
+  WebAclManagedRule,
+  type WebAclProps,
+  WebAclScope,
+} from './web-acl';
+
+describe('WebAcl', () => {
+  let stack: cdk.Stack;
+  let defaultProps: WebAclProps;
+
+  beforeEach(() => {
+    stack = new cdk.Stack(undefined, 'TestStack', {
+      env: { account: '123456789012', region: 'eu-west-1' },
+    });
+
+    defaultProps = {
+      stageName: 'dev',
+      scope: WebAclScope.Regional,
+    };
+  });
+
+  describe('Rules', () => {
+    it('enables the rate limit and managed rule presets by default', () => {
+      new WebAcl(stack, 'Orders', defaultProps);
+
+      Template.fromStack(stack).hasResourceProperties('AWS::WAFv2::WebACL', {
+        Name: 'dev-orders-waf',
+        Scope: 'REGIONAL',
+        DefaultAction: { Allow: {} },
+        VisibilityConfig: {
+          CloudWatchMetricsEnabled: true,
+          SampledRequestsEnabled: true,
+          MetricName: 'dev-orders-waf',
+        },
+        Rules: [
+          Match.objectLike({
+            Name: 'RateLimitPerIp',
+            Priority: 0,
+            Action: { Block: {} },
+            Statement: {
+              RateBasedStatement: { Limit: 2000, AggregateKeyType: 'IP' },
+            },
+          }),
+          Match.objectLike({
+            Name: 'AWSManagedRulesAmazonIpReputationList',
+            Priority: 1,
+            OverrideAction: { None: {} },
+          }),
+          Match.objectLike({
+            Name: 'AWSManagedRulesCommonRuleSet',
+            Priority: 2,
+          }),
+          Match.objectLike({
+            Name: 'AWSManagedRulesKnownBadInputsRuleSet',
+            Priority: 3,
+            Statement: {
+              ManagedRuleGroupStatement: {
+                VendorName: 'AWS',
+                Name: 'AWSManagedRulesKnownBadInputsRuleSet',
+              },
+            },
+            VisibilityConfig: {
+              CloudWatchMetricsEnabled: true,
+              SampledRequestsEnabled: true,
+              MetricName: 'AWSManagedRulesKnownBadInputsRuleSet',
+            },
+          }),
+        ],
+      });
+    });
+
+    it('uses the chosen managed rules and turns the rate limit off with 0', () => {
+      new WebAcl(stack, 'Orders', {
+        ...defaultProps,
+        managedRules: [WebAclManagedRule.Common],
+        rateLimitPerIp: 0,
+      });
+
+      Template.fromStack(stack).hasResourceProperties('AWS::WAFv2::WebACL', {
+        Rules: [
+          Match.objectLike({
+            Name: 'AWSManagedRulesCommonRuleSet',
+            Priority: 0,
+          }),
+        ],
+      });
+    });
+
+    it('evaluates blocked then allowed IP sets before the other rules', () => {
+      new WebAcl(stack, 'Orders', {
+        ...defaultProps,
+        managedRules: [],
+        rateLimitPerIp: 500,
+        blockedIps: ['203.0.113.0/24', '2001:db8::/32'],
+        allowedIps: ['198.51.100.10/32'],
+      });
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::WAFv2::IPSet', 3);
+      template.hasResourceProperties('AWS::WAFv2::IPSet', {
+        Name: 'dev-orders-waf-blockedipv6',
+        Scope: 'REGIONAL',
+        IPAddressVersion: 'IPV6',
+        Addresses: ['2001:db8::/32'],
+      });
+      template.hasResourceProperties('AWS::WAFv2::WebACL', {
+        Rules: [
+          Match.objectLike({
+            Name: 'BlockedIpv4',
+            Priority: 0,
+            Action: { Block: {} },
+          }),
+          Match.objectLike({ Name: 'BlockedIpv6', Priority: 1 }),
+          Match.objectLike({
+            Name: 'AllowedIpv4',
+            Priority: 2,
+            Action: { Allow: {} },
+            Statement: {
+              IPSetReferenceStatement: { Arn: Match.anyValue() },
+            },
+          }),
+          Match.objectLike({
+            Name: 'RateLimitPerIp',
+            Priority: 3,
+            Statement: {
+              RateBasedStatement: { Limit: 500, AggregateKeyType: 'IP' },
+            },
+          }),
+        ],
+      });
+    });
+
+    it('throws for an IP range that is not in CIDR notation', () => {
+      expect(
+        () =>
+          new WebAcl(stack, 'Orders', {
+            ...defaultProps,
+            allowedIps: ['198.51.100.10'],
+          }),
+      ).toThrow(
+        "Allowed IP range '198.51.100.10' on Orders must be in CIDR notation, e.g. 203.0.113.0/24",
+      );
+    });
+  });
+
+  describe('Logging', () => {
+    it('logs to a stage-aware log group by default', () => {
+      const webAcl = new WebAcl(stack, 'Orders', {
+        ...defaultProps,
+        stageName: 'prod',
+      });
+
+      expect(webAcl.logGroup).toBeDefined();
+
+      const template = Template.fromStack(stack);
+      template.hasResource('AWS::Logs::LogGroup', {
+        Properties: {
+          LogGroupName: 'aws-waf-logs-prod-orders-waf',
+          RetentionInDays: 365,
+        },
+        DeletionPolicy: 'Retain',
+      });
+      template.hasResourceProperties('AWS::WAFv2::LoggingConfiguration', {
+        ResourceArn: stack.resolve(webAcl.webAclArn),
+        LogDestinationConfigs: [
+          {
+            'Fn::Join': [
+              '',
+              Match.arrayWith([
+                ':logs:eu-west-1:123456789012:log-group:',
+                { Ref: Match.stringLikeRegexp('OrdersLogs') },
+              ]),
+            ],
+          },
+        ],
+      });
+    });
+
+    it('does not log when logging is false', () => {
+      const webAcl = new WebAcl(stack, 'Orders', {
+        ...defaultProps,
+        logging: false,
+      });
+
+      expect(webAcl.logGroup).toBeUndefined();
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs('AWS::Logs::LogGroup', 0);
+      template.resourceCountIs('AWS::WAFv2::LoggingConfiguration', 0);
+    });
+  });
+
+  describe('Attachment', () => {
+    it('associates a regional web ACL with a resource', () => {
+      const webAcl = new WebAcl(stack, 'Orders', defaultProps);
+
+      webAcl.associate(
+        'LoadBalancer',
+        'arn:aws:elasticloadbalancing:eu-west-1:123456789012:loadbalancer/app/orders/abc',
+      );
+
+      Template.fromStack(stack).hasResourceProperties(
+        'AWS::WAFv2::WebACLAssociation',
+        {
+          ResourceArn:
+            'arn:aws:elasticloadbalancing:eu-west-1:123456789012:loadbalancer/app/orders/abc',
+          WebACLArn: stack.resolve(webAcl.webAclArn),
+        },
+      );
+    });
+
+    it('throws when associating a CloudFront web ACL', () => {
+      const usEastStack = new cdk.Stack(undefined, 'EdgeStack', {
+        env: { region: 'us-east-1' },
+      });
+      const webAcl = new WebAcl(usEastStack, 'Orders', {
+        ...defaultProps,
+        scope: WebAclScope.CloudFront,
+      });
+
+      expect(() =>
+        webAcl.associate('Distribution', 'arn:aws:cloudfront::123:abc'),
+      ).toThrow(
+        "CloudFront web ACL Orders is attached through the distribution's webAclId, not an association",
+      );
+    });
+
+    it('throws for a CloudFront web ACL outside us-east-1', () => {
+      expect(
+        () =>
+          new WebAcl(stack, 'Orders', {
+            ...defaultProps,
+            scope: WebAclScope.CloudFront,
+          }),
+      ).toThrow('CloudFront web ACL Orders must be created in us-east-1');
+    });
+  });
+
+  describe('Metrics', () => {
+    it('includes the region for regional web ACLs', () => {
+      const webAcl = new WebAcl(stack, 'Orders', defaultProps);
+
+      const metric = webAcl.metricBlockedRequests();
+
+      expect(metric.namespace).toBe('AWS/WAFV2');
+      expect(metric.metricName).toBe('BlockedRequests');
+      expect(metric.statistic).toBe('Sum');
+      expect(metric.dimensions).toEqual({
+        WebACL: 'dev-orders-waf',
+        Rule: 'ALL',
+        Region: 'eu-west-1',
+      });
+    });
+
+    it('omits the region for CloudFront web ACLs', () => {
+      const usEastStack = new cdk.Stack(undefined, 'EdgeStack', {
+        env: { region: 'us-east-1' },
+      });
+      const webAcl = new WebAcl(usEastStack, 'Orders', {
+        ...defaultProps,
+        scope: WebAclScope.CloudFront,
+      });
+
+      expect(webAcl.metricAllowedRequests('RateLimitPerIp').dimensions).toEqual(
+        {
+          WebACL: 'dev-orders-waf',
+          Rule: 'RateLimitPerIp',
+        },
+      );
+    });
+  });
+
+  it('has no unsuppressed AwsSolutions findings', () => {
+    new WebAcl(stack, 'Orders', defaultProps);
+
+    cdk.Aspects.of(stack).add(new AwsSolutionsChecks({ verbose: true }));
+
+    const errors = Annotations.fromStack(stack).findError(
+      '*',
+      Match.stringLikeRegexp('AwsSolutions-.*'),
+    );
+    const warnings = Annotations.fromStack(stack).findWarning(
+      '*',
+      Match.stringLikeRegexp('AwsSolutions-.*'),
+    );
+    expect(errors).toHaveLength(0);
+    expect(warnings).toHaveLength(0);
+  });
+});
@@ -0,0 +1,432 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { Construct } from 'constructs';
+import { Region } from '../../types';
+import {
+  generateResourceName,
+  getLogRetentionFromStage,
+  getRemovalPolicyFromStage,
+} from '../../utils';
+
+/** A web ACL rule before its priority is assigned from its position. */
+type WebAclRule = Omit<wafv2.CfnWebACL.RuleProperty, 'priority'>;
+
+/**
+ * Where a web ACL can be attached.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum WebAclScope {
+  /** API Gateway stages, Application Load Balancers and other regional resources. */
+  Regional = 'REGIONAL',
+  /** CloudFront distributions. The web ACL must be created in `us-east-1`. */
+  CloudFront = 'CLOUDFRONT',
+}
+
+/**
+ * AWS managed rule groups that can be enabled on a web ACL.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum WebAclManagedRule {
+  /** OWASP style protection against common exploits such as XSS and oversized requests. */
+  Common = 'AWSManagedRulesCommonRuleSet',
+  /** Request patterns known to be invalid or to exploit vulnerabilities, such as Log4j. */
+  KnownBadInputs = 'AWSManagedRulesKnownBadInputsRuleSet',
+  /** IP addresses Amazon threat intelligence has identified as bots or sources of attacks. */
+  IpReputation = 'AWSManagedRulesAmazonIpReputationList',
+}
+
+/**
+ * Options for the rules, logging and metrics of a {@link WebAcl}.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   managedRules: [WebAclManagedRule.Common, WebAclManagedRule.KnownBadInputs],
+ *   rateLimitPerIp: 500,
+ *   blockedIps: ['203.0.113.0/24'],
+ * }
+ * ```
+ */
+export interface WebAclOptions {
+  /**
+   * AWS managed rule groups to evaluate, in the order given.
+   *
+   * @defaultValue IP reputation, common and known bad inputs
+   */
+  managedRules?: WebAclManagedRule[];
+
+  /**
+   * The number of requests a single IP address can make in a five minute window before
+   * further requests are blocked. Set to `0` to turn the rate-based rule off.
+   *
+   * @defaultValue 2000
+   */
+  rateLimitPerIp?: number;
+
+  /**
+   * CIDR ranges (IPv4 or IPv6) that are always allowed and skip every other rule except `blockedIps`.
+   *
+   * @defaultValue No allow list
+   */
+  allowedIps?: string[];
+
+  /**
+   * CIDR ranges (IPv4 or IPv6) that are always blocked.
+   *
+   * @defaultValue No deny list
+   */
+  blockedIps?: string[];
+
+  /**
+   * Whether requests are logged to a CloudWatch log group, with retention and removal
+   * policy following the stage.
+   *
+   * @defaultValue true
+   */
+  logging?: boolean;
+}
+
+/**
+ * Properties for configuring a WebAcl construct.
+ */
+export interface WebAclProps extends WebAclOptions {
+  /**
+   * The stage name, used to name the web ACL and its log group.
+   *
+   * @example 'prod', 'staging', 'dev'
+   */
+  stageName: string;
+
+  /**
+   * Where the web ACL can be attached.
+   */
+  scope: WebAclScope;
+}
+
+/**
+ * An AWS WAF web ACL with managed rule group presets, a per-IP rate limit and IP allow and deny lists.
+ *
+ * This construct provides:
+ * - AWS managed rule groups (IP reputation, common and known bad inputs by default)
+ * - A rate-based rule blocking IP addresses above a request limit
+ * - Optional IP sets that are always allowed or always blocked
+ * - CloudWatch metrics and sampled requests for the web ACL and every rule
+ * - Request logging to a stage-aware CloudWatch log group
+ *
+ * Requests that match no blocking rule are allowed. `RestApi` and `ApiCloudFrontDistribution`
+ * create and attach a web ACL through their `waf` option; use this construct directly to
+ * attach one web ACL to other resources with {@link WebAcl.associate}.
+ *
+ * @example
+ * ```typescript
+ * const webAcl = new WebAcl(this, 'Waf', {
+ *   stageName: 'prod',
+ *   scope: WebAclScope.Regional,
+ *   rateLimitPerIp: 1000,
+ *   allowedIps: ['198.51.100.10/32'],
+ * });
+ *
+ * webAcl.associate('LoadBalancer', loadBalancer.loadBalancerArn);
+ * ```
+ */
+export class WebAcl extends Construct {
+  /**
+   * The underlying web ACL.
+   */
+  public readonly webAcl: wafv2.CfnWebACL;
+
+  /**
+   * The ARN of the web ACL.
+   */
+  public readonly webAclArn: string;
+
+  /**
+   * The name of the web ACL, used as the `WebACL` dimension of its metrics.
+   */
+  public readonly webAclName: string;
+
+  /**
+   * The log group receiving WAF logs, when logging is enabled.
+   */
+  public readonly logGroup?: logs.LogGroup;
+
+  /**
+   * Where the web ACL can be attached.
+   *
+   * @internal
+   */
+  private readonly aclScope: WebAclScope;
+
+  /**
+   * Creates a web ACL with the configured rules, metrics and logging.
+   *
+   * @param scope - The parent construct
+   * @param id - A unique identifier for this construct within the scope
+   * @param props - {@link WebAclProps} controlling the rules, logging and where the web ACL can be attached
+   *
+   * @throws {Error} When a CloudFront web ACL is created outside `us-east-1`, or an IP range is not a CIDR
+   */
+  constructor(scope: Construct, id: string, props: WebAclProps) {
+    super(scope, id);
+
+    this.aclScope = props.scope;
+
+    const region = cdk.Stack.of(this).region;
+    if (
+      props.scope === WebAclScope.CloudFront &&
+      !cdk.Token.isUnresolved(region) &&
+      region !== Region.Virginia
+    ) {
+      throw new Error(
+        `CloudFront web ACL ${id} must be created in us-east-1, not ${region}`,
+      );
+    }
+
+    this.webAclName = generateResourceName({
+      stage: props.stageName,
+      service: id.toLowerCase(),
+      resource: 'waf',
+    });
+
+    // Allow and deny lists come first, so listed addresses skip or fail the other rules
+    const rules: WebAclRule[] = [
+      ...this.createIpSetRules(id, 'Blocked', props.blockedIps ?? [], {
+        block: {},
+      }),
+      ...this.createIpSetRules(id, 'Allowed', props.allowedIps ?? [], {
+        allow: {},
+      }),
+    ];
+
+    const rateLimitPerIp = props.rateLimitPerIp ?? 2000;
+    if (rateLimitPerIp > 0) {
+      rules.push({
+        name: 'RateLimitPerIp',
+        action: { block: {} },
+        statement: {
+          rateBasedStatement: {
+            limit: rateLimitPerIp,
+            aggregateKeyType: 'IP',
+          },
+        },
+        visibilityConfig: this.visibilityConfig('RateLimitPerIp'),
+      });
+    }
+
+    for (const managedRule of props.managedRules ?? [
+      WebAclManagedRule.IpReputation,
+      WebAclManagedRule.Common,
+      WebAclManagedRule.KnownBadInputs,
+    ]) {
+      rules.push({
+        name: managedRule,
+        overrideAction: { none: {} },
+        statement: {
+          managedRuleGroupStatement: {
+            vendorName: 'AWS',
+            name: managedRule,
+          },
+        },
+        visibilityConfig: this.visibilityConfig(managedRule),
+      });
+    }
+
+    this.webAcl = new wafv2.CfnWebACL(this, `${id}WebAcl`, {
+      name: this.webAclName,
+      scope: props.scope,
+      defaultAction: { allow: {} },
+      // Rules are evaluated in the order they were added
+      rules: rules.map((rule, priority) => ({ ...rule, priority })),
+      visibilityConfig: this.visibilityConfig(this.webAclName),
+    });
+    this.webAclArn = this.webAcl.attrArn;
+
+    if (props.logging ?? true) {
+      // WAF only delivers to log groups whose name starts with aws-waf-logs-
+      this.logGroup = new logs.LogGroup(this, `${id}Logs`, {
+        logGroupName: `aws-waf-logs-${this.webAclName}`,
+        retention: getLogRetentionFromStage(props.stageName),
+        removalPolicy: getRemovalPolicyFromStage(props.stageName),
+      });
+
+      new wafv2.CfnLoggingConfiguration(this, `${id}LoggingConfiguration`, {
+        resourceArn: this.webAclArn,
+        // The destination must be the log group ARN without the trailing ':*'
+        logDestinationConfigs: [
+          cdk.Stack.of(this).formatArn({
+            service: 'logs',
+            resource: 'log-group',
+            resourceName: this.logGroup.logGroupName,
+            arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+          }),
+        ],
+      });
+    }
+  }
+
+  /**
+   * Attaches the web ACL to a regional resource such as an API Gateway stage or load balancer.
+   *
+   * CloudFront distributions take the web ACL through their `webAclId` instead.
+   *
+   * @param id - A unique identifier for the association within this construct
+   * @param resourceArn - The ARN of the resource to protect
+   * @returns The web ACL association
+   *
+   * @throws {Error} When the web ACL has the CloudFront scope
+   */
+  public associate(
+    id: string,
+    resourceArn: string,
+  ): wafv2.CfnWebACLAssociation {
+    if (this.aclScope === WebAclScope.CloudFront) {
+      throw new Error(
+        `CloudFront web ACL ${this.node.id} is attached through the distribution's webAclId, not an association`,
+      );
+    }
+
+    return new wafv2.CfnWebACLAssociation(this, `${id}Association`, {
+      resourceArn,
+      webAclArn: this.webAclArn,
+    });
+  }
+
+  /**
+   * Returns a metric for the web ACL or one of its rules.
+   *
+   * @param metricName - The WAF metric, e.g. `BlockedRequests`
+   * @param rule - The rule name, or `ALL` for the whole web ACL
+   * @param props - Optional metric overrides
+   * @returns The metric
+   */
+  public metric(
+    metricName: string,
+    rule = 'ALL',
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: 'AWS/WAFV2',
+      metricName,
+      dimensionsMap: {
+        WebACL: this.webAclName,
+        Rule: rule,
+        // CloudFront web ACL metrics have no Region dimension
+        ...(this.aclScope === WebAclScope.Regional && {
+          Region: cdk.Stack.of(this).region,
+        }),
+      },
+      statistic: cloudwatch.Stats.SUM,
+      ...props,
+    });
+  }
+
+  /**
+   * Returns the number of requests the web ACL, or one of its rules, blocked.
+   *
+   * @param rule - The rule name, or `ALL` for the whole web ACL
+   * @param props - Optional metric overrides
+   * @returns The blocked requests metric
+   */
+  public metricBlockedRequests(
+    rule = 'ALL',
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return this.metric('BlockedRequests', rule, props);
+  }
+
+  /**
+   * Returns the number of requests the web ACL, or one of its rules, allowed.
+   *
+   * @param rule - The rule name, or `ALL` for the whole web ACL
+   * @param props - Optional metric overrides
+   * @returns The allowed requests metric
+   */
+  public metricAllowedRequests(
+    rule = 'ALL',
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return this.metric('AllowedRequests', rule, props);
+  }
+
+  /**
+   * Creates IP sets for a list of CIDR ranges, and a rule applying an action to each.
+   *
+   * WAF IP sets hold one address version, so IPv4 and IPv6 ranges get separate sets and rules.
+   *
+   * @param id - The construct id, prefixed to the IP set ids
+   * @param name - `Allowed` or `Blocked`, used in the rule and IP set names
+   * @param cidrs - The CIDR ranges
+   * @param action - The rule action
+   * @returns A rule for each address version in the list
+   */
+  private createIpSetRules(
+    id: string,
+    name: string,
+    cidrs: string[],
+    action: wafv2.CfnWebACL.RuleActionProperty,
+  ): WebAclRule[] {
+    for (const cidr of cidrs) {
+      if (!/^[0-9A-Fa-f:.]+\/\d{1,3}$/.test(cidr)) {
+        throw new Error(
+          `${name} IP range '${cidr}' on ${id} must be in CIDR notation, e.g. 203.0.113.0/24`,
+        );
+      }
+    }
+
+    const versions = [
+      {
+        version: 'IPV4',
+        suffix: 'Ipv4',
+        addresses: cidrs.filter((cidr) => !cidr.includes(':')),
+      },
+      {
+        version: 'IPV6',
+        suffix: 'Ipv6',
+        addresses: cidrs.filter((cidr) => cidr.includes(':')),
+      },
+    ];
+
+    return versions
+      .filter(({ addresses }) => addresses.length)
+      .map(({ version, suffix, addresses }) => {
+        const ruleName = `${name}${suffix}`;
+        const ipSet = new wafv2.CfnIPSet(this, `${id}${ruleName}IpSet`, {
+          name: `${this.webAclName}-${ruleName.toLowerCase()}`,
+          scope: this.aclScope,
+          ipAddressVersion: version,
+          addresses,
+        });
+
+        return {
+          name: ruleName,
+          action,
+          statement: {
+            ipSetReferenceStatement: { arn: ipSet.attrArn },
+          },
+          visibilityConfig: this.visibilityConfig(ruleName),
+        };
+      });
+  }
+
+  /**
+   * Returns a visibility configuration publishing metrics and sampled requests.
+   *
+   * @param metricName - The CloudWatch metric name for the rule or web ACL
+   * @returns The visibility configuration
+   */
+  private visibilityConfig(
+    metricName: string,
+  ): wafv2.CfnWebACL.VisibilityConfigProperty {
+    return {
+      cloudWatchMetricsEnabled: true,
+      sampledRequestsEnabled: true,
+      metricName,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import type * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import type { Stage } from '../types/environments';
+
+/**
+ * A per-stage map of CodeDeploy Lambda deployment configurations.
+ *
+ * Any stage that is not present in the map falls back to the default policy
+ * used by `getDeploymentConfigFromStage`.
+ *
+ * @example
+ * ```typescript
+ * const configs: StageDeploymentConfigs = {
+ *   [Stage.Staging]: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+ *   [Stage.Prod]: codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+ * };
+ * ```
+ */
+export type StageDeploymentConfigs = Partial<
+  Record<Stage, codeDeploy.ILambdaDeploymentConfig>
+>;
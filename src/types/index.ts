@@ -1,3 +1,4 @@
+export * from './deployment-config-types';
 export * from './environments';
 export * from './resource-name-types';
 export * from './tag-types';
@@ -0,0 +1,81 @@
+import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import { Stage } from '../../types/environments';
+import { getDeploymentConfigFromStage } from './get-deployment-config-from-stage';
+
+describe('getDeploymentConfigFromStage', () => {
+  describe('when stage is prod', () => {
+    it('should return a canary deployment config', () => {
+      const result = getDeploymentConfigFromStage(Stage.Prod);
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+      );
+    });
+  });
+
+  describe('when stage is staging', () => {
+    it('should return a linear deployment config', () => {
+      const result = getDeploymentConfigFromStage(Stage.Staging);
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+      );
+    });
+  });
+
+  describe('when stage is develop', () => {
+    it('should return an all at once deployment config', () => {
+      const result = getDeploymentConfigFromStage(Stage.Develop);
+      expect(result).toBe(codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE);
+    });
+  });
+
+  describe('when stage is test', () => {
+    it('should return an all at once deployment config', () => {
+      const result = getDeploymentConfigFromStage('test');
+      expect(result).toBe(codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE);
+    });
+  });
+
+  describe('when stage is an ephemeral', () => {
+    it('should return an all at once deployment config', () => {
+      const result = getDeploymentConfigFromStage('pr-123');
+      expect(result).toBe(codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE);
+    });
+  });
+
+  describe('when overrides are provided', () => {
+    it('should prefer the override for a matching stage', () => {
+      const result = getDeploymentConfigFromStage(Stage.Prod, {
+        [Stage.Prod]:
+          codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+      });
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+      );
+    });
+
+    it('should fall back to the default policy for other stages', () => {
+      const result = getDeploymentConfigFromStage(Stage.Staging, {
+        [Stage.Prod]: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+      });
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+      );
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should be case insensitive for prod', () => {
+      const result = getDeploymentConfigFromStage('PROD');
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+      );
+    });
+
+    it('should handle stages with whitespace', () => {
+      const result = getDeploymentConfigFromStage(' staging ');
+      expect(result).toBe(
+        codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+      );
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import * as codeDeploy from 'aws-cdk-lib/aws-codedeploy';
+import type { StageDeploymentConfigs } from '../../types/deployment-config-types';
+import { Stage } from '../../types/environments';
+
+/**
+ * Default CodeDeploy deployment configuration for each known stage.
+ */
+const defaultStageDeploymentConfigs: Required<StageDeploymentConfigs> = {
+  [Stage.Develop]: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+  [Stage.Test]: codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE,
+  [Stage.Staging]:
+    codeDeploy.LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTE,
+  [Stage.Prod]: codeDeploy.LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+};
+
+/**
+ * Determines the appropriate CodeDeploy Lambda deployment configuration based on the deployment stage.
+ *
+ * Production traffic is shifted with a canary so that a faulty release only reaches a small
+ * percentage of users before alarms can roll it back, and `staging` uses a linear shift to
+ * rehearse the rollout. In other stages (e.g., `develop`, `test` and ephemeral environments
+ * such as `pr-123`) traffic is shifted all at once to keep deployments fast.
+ *
+ * Any stage present in `overrides` takes precedence over the default policy.
+ *
+ * @param {string} stage - The current deployment stage (e.g., "develop", "staging", "prod").
+ * @param {StageDeploymentConfigs} [overrides] - Optional per-stage deployment configurations.
+ * @returns {codeDeploy.ILambdaDeploymentConfig} The deployment configuration for the given stage.
+ *
+ * @example
+ * const config = getDeploymentConfigFromStage(Stage.Prod);
+ * // Returns LambdaDeploymentConfig.CANARY_10PERCENT_5MINUTES
+ *
+ * @example
+ * const config = getDeploymentConfigFromStage('pr-123');
+ * // Returns LambdaDeploymentConfig.ALL_AT_ONCE
+ *
+ * @example
+ * const config = getDeploymentConfigFromStage(Stage.Prod, {
+ *   [Stage.Prod]: LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES,
+ * });
+ * // Returns LambdaDeploymentConfig.LINEAR_10PERCENT_EVERY_2MINUTES
+ */
+export function getDeploymentConfigFromStage(
+  stage: string,
+  overrides: StageDeploymentConfigs = {},
+): codeDeploy.ILambdaDeploymentConfig {
+  const normalisedStage = stage.toLowerCase().trim() as Stage;
+
+  return (
+    overrides[normalisedStage] ??
+    defaultStageDeploymentConfigs[normalisedStage] ??
+    codeDeploy.LambdaDeploymentConfig.ALL_AT_ONCE
+  );
+}
@@ -0,0 +1 @@
+export * from './get-deployment-config-from-stage';
@@ -0,0 +1,47 @@
+import * as logs from 'aws-cdk-lib/aws-logs';
+import { Stage } from '../../types/environments';
+import { getLogRetentionFromStage } from './get-log-retention-from-stage';
+
+describe('getLogRetentionFromStage', () => {
+  describe('when stage is prod', () => {
+    it('should return one year retention', () => {
+      const result = getLogRetentionFromStage(Stage.Prod);
+      expect(result).toBe(logs.RetentionDays.ONE_YEAR);
+    });
+  });
+
+  describe('when stage is staging', () => {
+    it('should return one year retention', () => {
+      const result = getLogRetentionFromStage(Stage.Staging);
+      expect(result).toBe(logs.RetentionDays.ONE_YEAR);
+    });
+  });
+
+  describe('when stage is develop', () => {
+    it('should return one week retention', () => {
+      const result = getLogRetentionFromStage(Stage.Develop);
+      expect(result).toBe(logs.RetentionDays.ONE_WEEK);
+    });
+  });
+
+  describe('when stage is test', () => {
+    it('should return one week retention', () => {
+      const result = getLogRetentionFromStage('test');
+      expect(result).toBe(logs.RetentionDays.ONE_WEEK);
+    });
+  });
+
+  describe('when stage is an ephemeral', () => {
+    it('should return one week retention', () => {
+      const result = getLogRetentionFromStage('pr-123');
+      expect(result).toBe(logs.RetentionDays.ONE_WEEK);
+    });
+  });
+
+  describe('when stage has different casing', () => {
+    it('should return one year retention for PROD', () => {
+      const result = getLogRetentionFromStage('PROD');
+      expect(result).toBe(logs.RetentionDays.ONE_YEAR);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { RemovalPolicy } from 'aws-cdk-lib';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import { getRemovalPolicyFromStage } from '../get-removal-policy-from-stage';
+
+/**
+ * Determines the appropriate CloudWatch Logs retention period based on the deployment stage.
+ *
+ * Stages whose resources are retained by {@link getRemovalPolicyFromStage} (`staging` and `prod`)
+ * keep their logs for a year to support incident investigation and audit. In other stages
+ * (e.g., `develop`, `test` and ephemeral environments such as `pr-123`) logs are kept for a
+ * week to keep costs down.
+ *
+ * @param {string} stage - The current deployment stage (e.g., "develop", "staging", "prod").
+ * @returns {logs.RetentionDays} The log retention period for the given stage.
+ *
+ * @example
+ * const retention = getLogRetentionFromStage(Stage.Prod);
+ * // Returns RetentionDays.ONE_YEAR
+ *
+ * @example
+ * const retention = getLogRetentionFromStage('pr-123');
+ * // Returns RetentionDays.ONE_WEEK
+ */
+export function getLogRetentionFromStage(stage: string): logs.RetentionDays {
+  if (getRemovalPolicyFromStage(stage) === RemovalPolicy.RETAIN) {
+    return logs.RetentionDays.ONE_YEAR;
+  }
+
+  return logs.RetentionDays.ONE_WEEK;
+}
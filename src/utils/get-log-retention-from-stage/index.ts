@@ -0,0 +1 @@
+export * from './get-log-retention-from-stage';
@@ -1,4 +1,6 @@
 export * from './generate-resource-name';
 export * from './generate-s3-bucket-name';
+export * from './get-deployment-config-from-stage';
+export * from './get-log-retention-from-stage';
 export * from './get-removal-policy-from-stage';
 export * from './get-stage';